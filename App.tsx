@@ -15,70 +15,169 @@ import {
   Modal,
 } from 'react-native';
 import BleManager from 'react-native-ble-manager';
+import RNBluetoothClassic from 'react-native-bluetooth-classic';
 import TcpSocket from 'react-native-tcp-socket';
 import { WebView } from 'react-native-webview';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Buffer } from 'buffer';
 import { NetworkInfo } from 'react-native-network-info';
+import { FormatOptions, QRMode } from './InvoiceFormatter';
+import { describeDocument, formatDocument, PrintDocument, validateDocument } from './documents';
+import { QRErrorCorrectionLevel } from './qrImage';
+import { interpretEscPos, renderPreviewHtml, renderPreviewText } from './escposPreview';
+import { CODE_PAGES, CodePageName, DEFAULT_CODE_PAGE, isCodePageName } from './codePages';
+import { createPrintQueue, PrintJob, PrintQueue } from './printQueue';
+import { createPrintHistory, PrintHistory, PrintHistoryEntry, reprintOf } from './printHistory';
+import { DrawerPin } from './escpos-commands';
+import { createEscPosDocument } from './escposBuilder';
+import { dotWidthForColumns } from './imageUtils';
+import { createRouter, handleHttpConnection, HttpError, HttpRequest, jsonResponse } from './httpServer';
 import {
-  addBreaks,
-  centerText,
-  dottedLine,
-  printQRCode,
-  boldText,
-  leftRightText,
-  reset,
-  setTextSize,
-} from './escpos-commands';
-import { formatInvoice, Invoice as BaseInvoice } from './InvoiceFormatter';
-
-// Extend the imported Invoice interface to accept a custom printerWidth.
-interface Invoice extends BaseInvoice {
+  createPrinterProfileStore,
+  createProfileId,
+  NO_CAPABILITIES,
+  PrinterCapabilities,
+  PrinterProfile,
+  PrinterProfileState,
+  PrinterProfileStore,
+  PRINTER_TRANSPORTS,
+  PrinterTransport,
+  isPrinterTransport,
+} from './printerProfiles';
+import { CreateConnection, NetworkPrinterAddress, parsePrinterAddress } from './networkPrinter';
+import {
+  BleApi,
+  createBleConnection,
+  createSppConnection,
+  createTcpConnection,
+  isBleConnection,
+  PrinterConnection,
+  WriteCandidate,
+} from './printerConnection';
+import { createStatusPoller, describeStatus, PrinterStatus, UNKNOWN_STATUS } from './printerStatus';
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS, LanguageCode, isLanguageCode } from './receiptLabels';
+import { DEFAULT_TEMPLATE, ReceiptTemplate, validateTemplate } from './receiptTemplate';
+import {
+  corsHeaders,
+  createPairingToken,
+  createRequestGuard,
+  normalizeOrigin,
+  RejectedRequest,
+  ServerSecurity,
+} from './serverAuth';
+
+// A document to print (an invoice unless documentType says otherwise), with
+// an optional custom printerWidth and the printer profile (id, name or role)
+// to print on.
+type PrintRequest = PrintDocument & {
   printerWidth?: number;
-}
+  printer?: string;
+};
 
 global.Buffer = Buffer;
 
-// For BLE, we use id instead of address.
+// BLE devices are listed by id, paired Bluetooth Classic devices by MAC address.
 interface BluetoothDevice {
   id: string;
   name: string;
 }
 
-// Helper to check if a characteristic is writable.
-const isWritableCharacteristic = (char: any): boolean => {
-  if (!char.properties) return false;
+const CUTTER_LABELS: Record<PrinterCapabilities['cutter'], string> = {
+  none: 'None',
+  full: 'Full cut',
+  partial: 'Partial cut',
+};
 
-  // If properties is an object (as in your sample data).
-  if (typeof char.properties === 'object' && !Array.isArray(char.properties)) {
-    const keys = Object.keys(char.properties);
-    return keys.some((key: string) =>
-      key.toLowerCase() === 'write' || key.toLowerCase() === 'writewithoutresponse'
-    );
-  }
+const TRANSPORT_LABELS: Record<PrinterTransport, string> = {
+  ble: 'Bluetooth (BLE)',
+  spp: 'Bluetooth Classic (SPP)',
+  tcp: 'Network (TCP 9100)',
+};
 
-  // If properties is an array.
-  if (Array.isArray(char.properties)) {
-    return char.properties.some((prop: string) =>
-      prop.toLowerCase() === 'write' || prop.toLowerCase() === 'writewithoutresponse'
-    );
-  }
+// Random bytes from react-native-get-random-values (loaded in index.js).
+const randomBytes = (size: number): Uint8Array => crypto.getRandomValues(new Uint8Array(size));
 
-  // If properties is a comma-separated string.
-  if (typeof char.properties === 'string') {
-    const props = char.properties.split(',').map((s: string) => s.trim());
-    return props.some((prop: string) =>
-      prop.toLowerCase() === 'write' || prop.toLowerCase() === 'writewithoutresponse'
-    );
-  }
-  
-  return false;
+// Open a connection to a Bluetooth printer: BLE by device id, or Bluetooth
+// Classic (SPP) by MAC address.
+const openBluetoothConnection = async (transport: PrinterTransport, deviceId: string): Promise<PrinterConnection> => {
+  console.log('Connecting to', deviceId, 'over', transport);
+  const connection = transport === 'spp'
+    ? createSppConnection(deviceId, RNBluetoothClassic)
+    : createBleConnection(deviceId, { ble: BleManager as BleApi, negotiateMtu: Platform.OS === 'android' });
+  await connection.connect();
+  console.log('Connected to device', deviceId);
+  return connection;
+};
+
+// The BLE characteristic a connection prints on; null for other transports.
+const candidateOf = (connection: PrinterConnection | null): WriteCandidate | null =>
+  connection && isBleConnection(connection) ? connection.candidate() : null;
+
+// QR printing settings saved under 'qrSettings'.
+interface QRSettings {
+  qrMode: QRMode;
+  qrImageSize: number;
+  qrErrorCorrection: QRErrorCorrectionLevel;
+}
+
+const DEFAULT_QR_SETTINGS: QRSettings = {
+  qrMode: 'native',
+  qrImageSize: 256,
+  qrErrorCorrection: 'M',
+};
+
+const QR_ERROR_CORRECTION_LEVELS: QRErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Sample invoice used by the test print and preview buttons.
+const TEST_INVOICE: PrintRequest = {
+  invoiceType: "Fature Shitje",
+  header: "Invoice Header",
+  invNumber: 15,
+  tin: "123456789",
+  address: "123 Main Street",
+  fiscString: "Fiscal Info",
+  opCode: "OP01",
+  buCode: "BU01",
+  Date: "2023-09-25",
+  lines: [
+    { productName: "qumesht", quantity: 1, price: 2.5, fullPrice: 2.5, discountAmount: 0, uom: "Cope" },
+    { productName: "vaj", quantity: 2, price: 1.5, fullPrice: 3.0, discountAmount: 0, uom: "Litra" },
+  ],
+  totalPriceNoVat: 5.5,
+  vat: [{ vatType: "Standard", amount: 1.1 }],
+  totalDiscount: 0,
+  totalPrice: 6.6,
+  Exrate: 1,
+  CustomerName: "John Doe",
+  CustomerTin: "987654321",
+  CustomerContact: "555-1234",
+  CustomerAddress: "456 Other St",
+  qrCode: "https://example.com/invoice/123",
+  qrSize: 8,
+  IIC: "IICDATA",
+  FIC: "FICDATA",
+  Footer: "Thank you for your purchase!",
 };
 
 const App: React.FC = () => {
   // Subdomain configuration.
   const [internetSubdomain, setInternetSubdomain] = useState<string | null>(null);
   const [subdomainInput, setSubdomainInput] = useState<string>('');
+  const internetSubdomainRef = useRef(internetSubdomain);
+  useEffect(() => {
+    internetSubdomainRef.current = internetSubdomain;
+  }, [internetSubdomain]);
+
+  // Print server access: pairing token, origin allowlist and bind address.
+  // The server starts once these are loaded.
+  const [serverSecurity, setServerSecurity] = useState<ServerSecurity | null>(null);
+  const serverSecurityRef = useRef(serverSecurity);
+  useEffect(() => {
+    serverSecurityRef.current = serverSecurity;
+  }, [serverSecurity]);
+  const [allowedOriginsInput, setAllowedOriginsInput] = useState<string>('');
+  // The latest requests the server refused, newest first.
+  const [rejectedRequests, setRejectedRequests] = useState<RejectedRequest[]>([]);
 
   // Printer width configuration.
   const [printerWidth, setPrinterWidth] = useState<string>('48');
@@ -88,6 +187,65 @@ const App: React.FC = () => {
     printerWidthRef.current = printerWidth;
   }, [printerWidth]);
 
+  // Printer code page configuration.
+  const [printerCodePage, setPrinterCodePage] = useState<CodePageName>(DEFAULT_CODE_PAGE);
+  const [editingCodePage, setEditingCodePage] = useState<boolean>(false);
+  const printerCodePageRef = useRef(printerCodePage);
+  useEffect(() => {
+    printerCodePageRef.current = printerCodePage;
+  }, [printerCodePage]);
+
+  // Receipt language; an invoice can still name its own.
+  const [printerLanguage, setPrinterLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const printerLanguageRef = useRef(printerLanguage);
+  useEffect(() => {
+    printerLanguageRef.current = printerLanguage;
+  }, [printerLanguage]);
+
+  // Cutter and cash drawer of the printer used without a profile.
+  const [printerCapabilities, setPrinterCapabilities] = useState<PrinterCapabilities>(NO_CAPABILITIES);
+  const printerCapabilitiesRef = useRef(printerCapabilities);
+  useEffect(() => {
+    printerCapabilitiesRef.current = printerCapabilities;
+  }, [printerCapabilities]);
+
+  // QR code printing configuration (native GS ( k or raster image).
+  const [qrSettings, setQrSettings] = useState<QRSettings>(DEFAULT_QR_SETTINGS);
+  const [qrImageSizeInput, setQrImageSizeInput] = useState<string>(String(DEFAULT_QR_SETTINGS.qrImageSize));
+  const qrSettingsRef = useRef(qrSettings);
+  useEffect(() => {
+    qrSettingsRef.current = qrSettings;
+  }, [qrSettings]);
+
+  // Update QR settings and persist them.
+  const updateQrSettings = async (changes: Partial<QRSettings>) => {
+    const next = { ...qrSettingsRef.current, ...changes };
+    setQrSettings(next);
+    try {
+      await AsyncStorage.setItem('qrSettings', JSON.stringify(next));
+    } catch (err) {
+      console.error('Error saving QR settings', err);
+    }
+  };
+
+  // Receipt layout uploaded over the local server; null means the default.
+  const [receiptTemplate, setReceiptTemplate] = useState<ReceiptTemplate | null>(null);
+  const receiptTemplateRef = useRef(receiptTemplate);
+  useEffect(() => {
+    receiptTemplateRef.current = receiptTemplate;
+  }, [receiptTemplate]);
+
+  // Replace the receipt template (null restores the default) and persist it.
+  const saveReceiptTemplate = async (template: ReceiptTemplate | null) => {
+    setReceiptTemplate(template);
+    receiptTemplateRef.current = template;
+    if (template) {
+      await AsyncStorage.setItem('receiptTemplate', JSON.stringify(template));
+    } else {
+      await AsyncStorage.removeItem('receiptTemplate');
+    }
+  };
+
   // Loading state when connecting to a printer.
   const [connecting, setConnecting] = useState<boolean>(false);
 
@@ -103,14 +261,51 @@ const App: React.FC = () => {
   // BLE Devices state.
   const [devices, setDevices] = useState<BluetoothDevice[]>([]);
   const [connectedDevice, setConnectedDevice] = useState<BluetoothDevice | null>(null);
-  const [currentCandidate, setCurrentCandidate] = useState<{ service: string; characteristic: string } | null>(null);
+  const [connection, setConnection] = useState<PrinterConnection | null>(null);
   // Use refs to always have the latest connection info.
   const connectedDeviceRef = useRef<BluetoothDevice | null>(null);
-  const currentCandidateRef = useRef<{ service: string; characteristic: string } | null>(null);
+  const connectionRef = useRef<PrinterConnection | null>(null);
+
+  // Printer hardware status from DLE EOT polling.
+  const [printerStatus, setPrinterStatus] = useState<PrinterStatus>(UNKNOWN_STATUS);
+  const printerStatusRef = useRef(printerStatus);
+  useEffect(() => {
+    printerStatusRef.current = printerStatus;
+  }, [printerStatus]);
+
+  // Named printer profiles; jobs can target one by id, name or role.
+  const [printerProfiles, setPrinterProfiles] = useState<PrinterProfileState>({ profiles: [], defaultId: null });
+  const profileStoreRef = useRef<PrinterProfileStore | null>(null);
+  const [profileNameInput, setProfileNameInput] = useState<string>('');
+  const [profileRoleInput, setProfileRoleInput] = useState<string>('');
+  // How printing without a profile reaches the printer, and the network printer's address.
+  // The device list shows BLE devices or paired Bluetooth Classic devices to match.
+  const [printerTransport, setPrinterTransport] = useState<PrinterTransport>('ble');
+  const printerTransportRef = useRef(printerTransport);
+  useEffect(() => {
+    printerTransportRef.current = printerTransport;
+  }, [printerTransport]);
+  const [networkPrinterInput, setNetworkPrinterInput] = useState<string>('');
+  const networkPrinterRef = useRef<NetworkPrinterAddress | null>(null);
+
+  // Connections to profile printers other than the one connected in the UI.
+  const profileConnectionsRef = useRef<Record<string, PrinterConnection>>({});
 
   // TCP server.
   const [server, setServer] = useState<any>(null);
 
+  // Receipt preview (HTML) shown in a modal.
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+
+  // Persistent print queue; every print request goes through it.
+  const [printJobs, setPrintJobs] = useState<PrintJob[]>([]);
+  const printQueueRef = useRef<PrintQueue | null>(null);
+
+  // Jobs that left the queue, shown on the history screen and reprintable.
+  const [printHistory, setPrintHistory] = useState<PrintHistoryEntry[]>([]);
+  const printHistoryRef = useRef<PrintHistory | null>(null);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+
   // Load saved configuration on mount.
   useEffect(() => {
     AsyncStorage.getItem('internetSubdomain')
@@ -119,6 +314,65 @@ const App: React.FC = () => {
     AsyncStorage.getItem('printerWidth')
       .then((value) => { if (value) setPrinterWidth(value); })
       .catch((err) => console.error('Error loading printer width:', err));
+    AsyncStorage.getItem('printerCodePage')
+      .then((value) => { if (isCodePageName(value)) setPrinterCodePage(value); })
+      .catch((err) => console.error('Error loading printer code page:', err));
+    AsyncStorage.getItem('printerLanguage')
+      .then((value) => { if (isLanguageCode(value)) setPrinterLanguage(value); })
+      .catch((err) => console.error('Error loading printer language:', err));
+    AsyncStorage.getItem('printerCapabilities')
+      .then((value) => { if (value) setPrinterCapabilities({ ...NO_CAPABILITIES, ...JSON.parse(value) }); })
+      .catch((err) => console.error('Error loading printer capabilities:', err));
+    AsyncStorage.getItem('printerTransport')
+      .then((value) => { if (isPrinterTransport(value)) setPrinterTransport(value); })
+      .catch((err) => console.error('Error loading printer transport:', err));
+    AsyncStorage.getItem('networkPrinter')
+      .then((value) => {
+        if (value) {
+          setNetworkPrinterInput(value);
+          networkPrinterRef.current = parsePrinterAddress(value);
+        }
+      })
+      .catch((err) => console.error('Error loading network printer:', err));
+    AsyncStorage.getItem('qrSettings')
+      .then((value) => {
+        if (value) {
+          const saved: QRSettings = { ...DEFAULT_QR_SETTINGS, ...JSON.parse(value) };
+          setQrSettings(saved);
+          setQrImageSizeInput(String(saved.qrImageSize));
+        }
+      })
+      .catch((err) => console.error('Error loading QR settings:', err));
+    AsyncStorage.getItem('receiptTemplate')
+      .then((value) => {
+        if (value) {
+          const saved = JSON.parse(value);
+          if (validateTemplate(saved).length === 0) {
+            setReceiptTemplate(saved);
+          } else {
+            console.warn('Ignoring invalid saved receipt template');
+          }
+        }
+      })
+      .catch((err) => console.error('Error loading receipt template:', err));
+    Promise.all([
+      AsyncStorage.getItem('serverToken'),
+      AsyncStorage.getItem('serverAllowedOrigins'),
+      AsyncStorage.getItem('serverLocalhostOnly'),
+    ])
+      .then(async ([token, origins, localhostOnly]) => {
+        if (!token) {
+          token = createPairingToken(randomBytes);
+          await AsyncStorage.setItem('serverToken', token);
+        }
+        const allowedOrigins: string[] = origins ? JSON.parse(origins) : [];
+        setAllowedOriginsInput(allowedOrigins.join(', '));
+        setServerSecurity({ token, allowedOrigins, localhostOnly: localhostOnly === 'true' });
+      })
+      .catch((err) => console.error('Error loading server security:', err));
+    const profileStore = createPrinterProfileStore({ storage: AsyncStorage, onChange: setPrinterProfiles });
+    profileStoreRef.current = profileStore;
+    profileStore.load().then(() => printQueueRef.current?.resume());
   }, []);
 
   // Remember last connected device and attempt reconnect.
@@ -139,8 +393,8 @@ const App: React.FC = () => {
   }, [connectedDevice]);
 
   useEffect(() => {
-    currentCandidateRef.current = currentCandidate;
-  }, [currentCandidate]);
+    connectionRef.current = connection;
+  }, [connection]);
 
   // Automatically open the WebView when a printer gets connected.
   useEffect(() => {
@@ -149,6 +403,41 @@ const App: React.FC = () => {
     }
   }, [connectedDevice]);
 
+  // Resume queued jobs once a printer is (re)connected.
+  useEffect(() => {
+    if (connectedDevice && connection) {
+      printQueueRef.current?.resume();
+    }
+  }, [connectedDevice, connection]);
+
+  // Poll the printer status while connected, reading replies from the notify characteristic.
+  useEffect(() => {
+    const notify = candidateOf(connection)?.notify;
+    if (!connection || !notify) {
+      setPrinterStatus(UNKNOWN_STATUS);
+      return;
+    }
+    const deviceId = connection.deviceId;
+    const poller = createStatusPoller({
+      send: (data) => connection.write(data),
+      isBusy: () => connection.busy(),
+      onChange: setPrinterStatus,
+    });
+    const subscription = BleManager.onDidUpdateValueForCharacteristic((event: any) => {
+      if (event.peripheral === deviceId && event.characteristic.toLowerCase() === notify.characteristic.toLowerCase()) {
+        poller.receive(event.value);
+      }
+    });
+    BleManager.startNotification(deviceId, notify.service, notify.characteristic)
+      .then(() => poller.start())
+      .catch((err) => console.warn('Status notifications unavailable:', err));
+    return () => {
+      poller.stop();
+      subscription.remove();
+      BleManager.stopNotification(deviceId, notify.service, notify.characteristic).catch(() => {});
+    };
+  }, [connection]);
+
   // Request Bluetooth and location permissions (for BLE).
   const requestBluetoothPermissions = async (): Promise<void> => {
     if (Platform.OS === 'android') {
@@ -171,13 +460,29 @@ const App: React.FC = () => {
     BleManager.start({ showAlert: false })
       .then(() => console.log('BleManager started'))
       .catch(err => console.error('BleManager start error:', err));
-    // Start a scan on mount (adjust scan duration as needed)
-    scanDevices();
   }, []);
 
-  // Scan for BLE devices for 5 seconds.
+  // List devices again whenever the transport changes (and on mount).
+  useEffect(() => {
+    scanDevices();
+  }, [printerTransport]);
+
+  // List paired Bluetooth Classic devices, or scan for BLE devices for 5 seconds.
   const scanDevices = async (): Promise<void> => {
     setDevices([]);
+    const transport = printerTransportRef.current;
+    if (transport === 'spp') {
+      try {
+        const bonded = await RNBluetoothClassic.getBondedDevices();
+        setDevices(bonded.map((d) => ({ id: d.address, name: d.name || d.address })));
+        if (bonded.length === 0) {
+          Alert.alert('No devices found', 'Pair the printer in the Bluetooth settings first.');
+        }
+      } catch (err) {
+        console.error('Error listing paired devices:', err);
+      }
+      return;
+    }
     console.log('Starting BLE scan...');
     try {
       await BleManager.scan([], 5, true);
@@ -191,6 +496,10 @@ const App: React.FC = () => {
       const filtered = peripherals.filter((p: any) => p.name);
       // Map to our BluetoothDevice interface (using id and name).
       const bleDevices: BluetoothDevice[] = filtered.map((p: any) => ({ id: p.id, name: p.name }));
+      // The transport may have changed while scanning.
+      if (printerTransportRef.current !== transport) {
+        return;
+      }
       setDevices(bleDevices);
       if (bleDevices.length === 0) {
         Alert.alert('No devices found', 'Ensure your printer is on and advertising.');
@@ -212,226 +521,587 @@ const App: React.FC = () => {
     );
   };
 
-  // Connect to a BLE device and select the first writable characteristic.
+  // Connect to a Bluetooth device over the selected transport; over BLE the
+  // first writable characteristic is used.
   const connectToDeviceNow = async (device: BluetoothDevice): Promise<void> => {
     setConnecting(true);
     try {
-      console.log('Connecting to', device.id);
-      await BleManager.connect(device.id);
-      console.log('Connected to device', device.id);
-      // Wait a bit for services to be discovered.
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      const peripheralInfo = await BleManager.retrieveServices(device.id);
-      console.log('Peripheral info:', peripheralInfo);
-
-      if (!peripheralInfo.characteristics || peripheralInfo.characteristics.length === 0) {
-        Alert.alert('No characteristics found', 'No characteristics were discovered. Disconnecting.');
-        await BleManager.disconnect(device.id);
-        return;
-      }
-
-      // Filter for writable characteristics.
-      const writable = peripheralInfo.characteristics.filter((char: any) => isWritableCharacteristic(char));
-      if (writable.length === 0) {
-        Alert.alert('No writable characteristics', 'This device does not support writable characteristics. Disconnecting.');
-        await BleManager.disconnect(device.id);
-        return;
-      }
-
+      const transport = printerTransportRef.current === 'spp' ? 'spp' : 'ble';
+      const next = await openBluetoothConnection(transport, device.id);
       setConnectedDevice({ id: device.id, name: device.name });
       await AsyncStorage.setItem('lastConnectedDevice', device.id);
-      // Select the first writable candidate.
-      const candidate = { service: writable[0].service, characteristic: writable[0].characteristic };
-      setCurrentCandidate(candidate);
+      connectionRef.current = next;
+      setConnection(next);
+      delete profileConnectionsRef.current[device.id];
+      const candidate = candidateOf(next);
       Alert.alert(
         'Connected',
-        `Connected to ${device.name}\nUsing candidate:\nService: ${candidate.service}\nCharacteristic: ${candidate.characteristic}`
+        candidate
+          ? `Connected to ${device.name}\nUsing candidate:\nService: ${candidate.service}\nCharacteristic: ${candidate.characteristic}\nMTU: ${candidate.mtu}`
+          : `Connected to ${device.name}\nBluetooth Classic (SPP)`
       );
       console.log('Current candidate:', candidate);
     } catch (e: any) {
       console.error('Connection failed:', e);
+      Alert.alert('Connection failed', e?.message ?? String(e));
       disconnectFromDevice();
     } finally {
       setConnecting(false);
     }
   };
 
-  // Disconnect from the current BLE device.
+  // Disconnect from the current printer.
   const disconnectFromDevice = async () => {
-    if (connectedDevice) {
-      try {
-        await BleManager.disconnect(connectedDevice.id);
-      } catch (e) {
-        console.error("Error disconnecting", e);
-      } finally {
-        setConnectedDevice(null);
-        setCurrentCandidate(null);
-        setShowWebView(false);
-        await AsyncStorage.removeItem('lastConnectedDevice');
-      }
+    const current = connectionRef.current;
+    if (!current) {
+      return;
+    }
+    try {
+      await current.disconnect();
+    } catch (e) {
+      console.error("Error disconnecting", e);
+    } finally {
+      connectionRef.current = null;
+      setConnectedDevice(null);
+      setConnection(null);
+      setShowWebView(false);
+      await AsyncStorage.removeItem('lastConnectedDevice');
     }
   };
 
-  // Helper: Write to BLE device with a 5-second timeout.
-  const writeToDeviceWithTimeout = async (deviceId: string, data: number[], timeout = 5000) => {
-    return new Promise((resolve, reject) => {
-      let timedOut = false;
-      const timer = setTimeout(() => {
-        timedOut = true;
-        reject(new Error("Print timeout"));
-      }, timeout);
-
-      BleManager.writeWithoutResponse(
-        deviceId,
-        currentCandidateRef.current!.service,
-        currentCandidateRef.current!.characteristic,
-        data
-      )
-        .then((res: any) => {
-          if (!timedOut) {
-            clearTimeout(timer);
-            resolve(res);
-          }
-        })
-        .catch((err: any) => {
-          if (!timedOut) {
-            clearTimeout(timer);
-            reject(err);
-          }
-        });
-    });
+  // Find the profile an invoice prints on; throws when it names an unknown printer.
+  const profileForInvoice = (invoice: PrintRequest): PrinterProfile | null => {
+    const profile = profileStoreRef.current?.resolve(invoice.printer) ?? null;
+    if (invoice.printer && !profile) {
+      throw new Error(`Unknown printer: ${invoice.printer}`);
+    }
+    return profile;
   };
 
-  // Print invoice using BLE. Uses invoice.printerWidth if provided.
-  const printInvoice = async (invoice: Invoice): Promise<void> => {
-    // Use the refs to ensure we're using the latest connection info.
-    if (!connectedDeviceRef.current || !currentCandidateRef.current) {
-      Alert.alert("Not Connected", "No printer is connected.");
-      return;
+  // Save the cutter and cash drawer of the printer used without a profile.
+  const updatePrinterCapabilities = async (changes: Partial<PrinterCapabilities>) => {
+    const next = { ...printerCapabilities, ...changes };
+    setPrinterCapabilities(next);
+    printerCapabilitiesRef.current = next;
+    try {
+      await AsyncStorage.setItem('printerCapabilities', JSON.stringify(next));
+    } catch (err) {
+      console.error('Error saving printer capabilities', err);
+    }
+  };
+
+  const capabilitiesFor = (profile: PrinterProfile | null): PrinterCapabilities =>
+    profile?.capabilities ?? printerCapabilitiesRef.current;
+
+  // Format an invoice with the printer settings, taken from the profile where it sets them.
+  // Uses invoice.printerWidth if provided.
+  const buildInvoiceCommands = (
+    invoice: PrintRequest,
+    profile: PrinterProfile | null = null,
+  ): { commands: Uint8Array; width: number; codePage: CodePageName } => {
+    const invoiceWidth = invoice.printerWidth ?? profile?.width ?? (parseInt(printerWidthRef.current, 10) || 48);
+    console.log("Using printer width:", invoiceWidth);
+    const codePage = profile?.codePage ?? printerCodePageRef.current;
+    const formatOptions: FormatOptions = {
+      codePage,
+      language: profile?.language ?? printerLanguageRef.current,
+      ...qrSettingsRef.current,
+      template: profile?.template ?? receiptTemplateRef.current ?? DEFAULT_TEMPLATE,
+      ...capabilitiesFor(profile),
+    };
+    return { commands: formatDocument(invoice, invoiceWidth, formatOptions), width: invoiceWidth, codePage };
+  };
+
+  // Render an invoice to a preview of the printed receipt, without printing.
+  const previewInvoice = (invoice: PrintRequest) => {
+    const { commands, width, codePage } = buildInvoiceCommands(invoice, profileForInvoice(invoice));
+    return interpretEscPos(commands, { width, codePage });
+  };
+
+  // True when the job goes to a network printer: a 'tcp' profile, or no profile while
+  // the app prints over the network.
+  const usesNetworkPrinter = (profile: PrinterProfile | null): boolean =>
+    profile ? profile.transport === 'tcp' : printerTransportRef.current === 'tcp';
+
+  // Returns the network printer address for a job; throws when none is set.
+  const networkAddressFor = (profile: PrinterProfile | null): NetworkPrinterAddress => {
+    const address = profile?.host ? { host: profile.host, port: profile.port } : networkPrinterRef.current;
+    if (!address) {
+      throw new Error('No network printer address is set');
+    }
+    return address;
+  };
+
+  // True when the profile's printer is the one connected in the UI (or there is no profile).
+  const usesConnectedDevice = (profile: PrinterProfile | null): boolean =>
+    !profile || profile.deviceId === connectedDeviceRef.current?.id;
+
+  // Returns the connection to print on: a connection per job for network printers,
+  // otherwise the connected printer, connecting to a profile's printer on demand.
+  const connectionFor = async (profile: PrinterProfile | null): Promise<PrinterConnection> => {
+    if (usesNetworkPrinter(profile)) {
+      const network = createTcpConnection(networkAddressFor(profile), TcpSocket.createConnection as CreateConnection);
+      await network.connect();
+      return network;
     }
+    if (usesConnectedDevice(profile)) {
+      // Use the ref to ensure we're using the latest connection.
+      if (!connectionRef.current) {
+        throw new Error('No printer is connected');
+      }
+      return connectionRef.current;
+    }
+    const deviceId = profile!.deviceId;
+    if (!profileConnectionsRef.current[deviceId]) {
+      profileConnectionsRef.current[deviceId] = await openBluetoothConnection(profile!.transport, deviceId);
+    }
+    return profileConnectionsRef.current[deviceId];
+  };
+
+  // Print invoice on the job's printer, whatever its transport.
+  // Throws when no printer is connected so the queue keeps the job.
+  const printInvoice = async (invoice: PrintRequest): Promise<void> => {
+    const profile = profileForInvoice(invoice);
+    const printer = await connectionFor(profile);
     setPrinting(true);
     try {
-      const invoiceWidth = invoice.printerWidth ?? (parseInt(printerWidthRef.current, 10) || 48);
-      console.log("Using printer width:", invoiceWidth);
-      const commands = formatInvoice(invoice, invoiceWidth);
-      const encodedCommands = Buffer.from(commands, 'latin1');
+      const { commands } = buildInvoiceCommands(invoice, profile);
+      const encodedCommands = Buffer.from(commands);
       console.log('Printing invoice (first 100 bytes):', encodedCommands.slice(0, 100));
-      // Convert Buffer to array of numbers.
-      const dataArray = Array.from(encodedCommands);
-      // Write with a 5-second timeout.
-      await writeToDeviceWithTimeout(connectedDeviceRef.current.id, dataArray, 5000);
+      await printer.write(encodedCommands);
       console.log('Printed invoice successfully');
     } catch (error) {
       console.error('Printing invoice failed:', error);
-      disconnectFromDevice();
-      Alert.alert("Printer Disconnected", "The printer appears to be disconnected. Please reconnect.");
+      // Network jobs open their own connection, so only Bluetooth needs resetting.
+      if (printer === connectionRef.current) {
+        disconnectFromDevice();
+        Alert.alert("Printer Disconnected", "The printer appears to be disconnected. Please reconnect.");
+      } else if (printer.transport !== 'tcp') {
+        // Reconnect on the next attempt.
+        delete profileConnectionsRef.current[printer.deviceId];
+        printer.disconnect().catch(() => {});
+      }
       throw error;
     } finally {
       setPrinting(false);
     }
   };
 
-  const printTestMessage = async (): Promise<void> => {
-    await printInvoice({
-      invoiceType: "Fature Shitje",
-      header: "Invoice Header",
-      invNumber: 15,
-      tin: "123456789",
-      address: "123 Main Street",
-      fiscString: "Fiscal Info",
-      opCode: "OP01",
-      buCode: "BU01",
-      Date: "2023-09-25",
-      lines: [
-        { productName: "qumesht", quantity: 1, price: 2.5, fullPrice: 2.5, discountAmount: 0, uom: "Cope" },
-        { productName: "vaj", quantity: 2, price: 1.5, fullPrice: 3.0, discountAmount: 0, uom: "Litra" },
-      ],
-      totalPriceNoVat: 5.5,
-      vat: [{ vatType: "Standard", amount: 1.1 }],
-      totalDiscount: 0,
-      totalPrice: 6.6,
-      Exrate: 1,
-      CustomerName: "John Doe",
-      CustomerTin: "987654321",
-      CustomerContact: "555-1234",
-      CustomerAddress: "456 Other St",
-      qrCode: "https://example.com/invoice/123",
-      qrSize: 8,
-      IIC: "IICDATA",
-      FIC: "FICDATA",
-      Footer: "Thank you for your purchase!",
+  // Name of the printer a job goes to, as shown in the history.
+  const printerNameFor = (profile: PrinterProfile | null): string => {
+    if (profile) {
+      return profile.name;
+    }
+    const address = networkPrinterRef.current;
+    if (usesNetworkPrinter(null) && address) {
+      return `${address.host}:${address.port}`;
+    }
+    return connectedDeviceRef.current?.name ?? 'Unknown printer';
+  };
+
+  // Create the print queue and history once and restore what was saved before the last restart.
+  useEffect(() => {
+    const history = createPrintHistory({ storage: AsyncStorage, onChange: setPrintHistory });
+    printHistoryRef.current = history;
+    history.load();
+    const queue = createPrintQueue({
+      storage: AsyncStorage,
+      print: (job) => printInvoice(job.invoice as PrintRequest),
+      // Jobs are pinned to a profile id, or null for the app-wide printer.
+      targetOf: (job) => (job.invoice as PrintRequest).printer ?? null,
+      // Network printers and profile printers other than the connected one are connected on demand.
+      isReady: (job) => {
+        const profile = profileStoreRef.current?.resolve((job.invoice as PrintRequest).printer) ?? null;
+        return (
+          usesNetworkPrinter(profile) ||
+          !usesConnectedDevice(profile) ||
+          !!connectionRef.current
+        );
+      },
+      onChange: setPrintJobs,
+      onSettled: (job, outcome) => {
+        const invoice = job.invoice as PrintRequest;
+        history.record({
+          id: job.id,
+          invoice,
+          printer: invoice.printer ?? null,
+          printerName: printerNameFor(profileStoreRef.current?.resolve(invoice.printer) ?? null),
+          createdAt: job.createdAt,
+          settledAt: Date.now(),
+          outcome,
+          attempts: job.attempts,
+          error: outcome === 'failed' ? job.lastError : undefined,
+        });
+      },
     });
+    printQueueRef.current = queue;
+    queue.load();
+  }, []);
+
+  // Add an invoice to the print queue.
+  const enqueueInvoice = async (invoice: PrintRequest): Promise<PrintJob> => {
+    if (!printQueueRef.current) {
+      throw new Error('Print queue is not ready');
+    }
+    return printQueueRef.current.enqueue(invoice);
+  };
+
+  // Kick open the cash drawer of a printer without printing (no-sale opening).
+  const openCashDrawer = async (profile: PrinterProfile | null): Promise<void> => {
+    const { drawer } = capabilitiesFor(profile);
+    if (!drawer) {
+      throw new Error('The printer has no cash drawer');
+    }
+    const printer = await connectionFor(profile);
+    await printer.write(createEscPosDocument().drawer(drawer).build());
+  };
+
+  // Queue a job from the history again, marked as a copy, for the printer it went to.
+  // Returns null when the job is not in the history.
+  const reprintJob = async (id: string): Promise<PrintJob | null> => {
+    const entry = printHistoryRef.current?.get(id);
+    if (!entry) {
+      return null;
+    }
+    if (entry.printer && !profileStoreRef.current?.resolve(entry.printer)) {
+      throw new Error(`Printer profile ${entry.printerName} no longer exists`);
+    }
+    return enqueueInvoice(reprintOf(entry.invoice as PrintRequest));
+  };
+
+  // Save the connected printer with the current settings as a named profile.
+  // Network printers are saved with the address entered in the settings.
+  const saveConnectedAsProfile = async (): Promise<void> => {
+    const network = printerTransportRef.current === 'tcp';
+    const device = connectedDeviceRef.current;
+    const address = networkPrinterRef.current;
+    const name = profileNameInput.trim();
+    if ((network ? !address : !device) || !name || !profileStoreRef.current) {
+      Alert.alert('Printer Profile', 'Connect a printer and enter a profile name first.');
+      return;
+    }
+    const existing = profileStoreRef.current.getState().profiles.find(p => p.name.toLowerCase() === name.toLowerCase());
+    const target = network
+      ? {
+        transport: 'tcp' as const,
+        deviceId: `${address!.host}:${address!.port}`,
+        deviceName: `${address!.host}:${address!.port}`,
+        host: address!.host,
+        port: address!.port,
+      }
+      : {
+        transport: connectionRef.current?.transport ?? 'ble',
+        deviceId: device!.id,
+        deviceName: device!.name,
+        host: undefined,
+        port: undefined,
+      };
+    await profileStoreRef.current.save({
+      ...existing,
+      id: existing?.id ?? createProfileId(),
+      name,
+      role: profileRoleInput.trim() || undefined,
+      ...target,
+      width: parseInt(printerWidthRef.current, 10) || 48,
+      codePage: printerCodePageRef.current,
+      language: printerLanguageRef.current,
+      capabilities: printerCapabilitiesRef.current,
+    });
+    setProfileNameInput('');
+    setProfileRoleInput('');
+  };
+
+  // Name and role inputs for saving the current printer as a profile.
+  const renderProfileForm = () => (
+    <View style={{ width: '100%' }}>
+      <TextInput
+        style={styles.input}
+        value={profileNameInput}
+        onChangeText={setProfileNameInput}
+        placeholder="Profile name (e.g. Counter)"
+      />
+      <TextInput
+        style={styles.input}
+        value={profileRoleInput}
+        onChangeText={setProfileRoleInput}
+        placeholder="Role (e.g. receipt, kitchen)"
+      />
+      <View style={styles.buttonContainer}>
+        <Button title="Save as Printer Profile" onPress={saveConnectedAsProfile} />
+      </View>
+    </View>
+  );
+
+  const printTestMessage = async (): Promise<void> => {
+    await enqueueInvoice(TEST_INVOICE);
+  };
+
+  // Save print server settings; the server restarts when the bind address changes.
+  const updateServerSecurity = async (changes: Partial<ServerSecurity>) => {
+    if (!serverSecurity) {
+      return;
+    }
+    setServerSecurity({ ...serverSecurity, ...changes });
+    try {
+      if (changes.token != null) {
+        await AsyncStorage.setItem('serverToken', changes.token);
+      }
+      if (changes.allowedOrigins != null) {
+        await AsyncStorage.setItem('serverAllowedOrigins', JSON.stringify(changes.allowedOrigins));
+      }
+      if (changes.localhostOnly != null) {
+        await AsyncStorage.setItem('serverLocalhostOnly', String(changes.localhostOnly));
+      }
+    } catch (err) {
+      console.error('Error saving server security', err);
+    }
+  };
+
+  // The settings requests are checked against; without a configured allowlist
+  // only the web app's own site may call the server.
+  const currentServerSecurity = (): ServerSecurity => {
+    const security = serverSecurityRef.current!;
+    const subdomain = internetSubdomainRef.current;
+    return security.allowedOrigins.length > 0 || !subdomain
+      ? security
+      : { ...security, allowedOrigins: [subdomain] };
+  };
+
+  // Hands the pairing token to the web app, but only on allowed sites.
+  const tokenInjection = (): string => {
+    if (!serverSecurity) {
+      return 'true;';
+    }
+    // Compared the way the server compares them, so the page gets the token
+    // exactly when its requests would be let through.
+    const allowed = currentServerSecurity().allowedOrigins.map(normalizeOrigin);
+    return `(function () {
+      var allowed = ${JSON.stringify(allowed)};
+      var origin = window.location.origin.toLowerCase();
+      var host = window.location.host.toLowerCase();
+      if (allowed.indexOf('*') >= 0 || allowed.indexOf(origin) >= 0 || allowed.indexOf(host) >= 0) {
+        window.printServerToken = ${JSON.stringify(serverSecurity.token)};
+      }
+    })();
+    true;`;
   };
 
-  // TCP server setup.
+  // The server outlives renders, so its handlers reach these through refs.
+  const previewInvoiceRef = useRef(previewInvoice);
   useEffect(() => {
-    const tcpServer = TcpSocket.createServer((socket: any) => {
-      socket.on('data', async (data: string | Buffer) => {
-        const requestStr = typeof data === 'string' ? data.trim() : data.toString('utf8').trim();
-        console.log('Received request:\n', requestStr);
-        // Handle OPTIONS requests.
-        if (requestStr.startsWith('OPTIONS')) {
-          const optionsResponse =
-            'HTTP/1.1 204 No Content\r\n' +
-            'Access-Control-Allow-Origin: *\r\n' +
-            'Access-Control-Allow-Methods: GET, POST, OPTIONS\r\n' +
-            'Access-Control-Allow-Headers: Content-Type, authorization\r\n' +
-            'Content-Length: 0\r\n\r\n';
-          socket.write(optionsResponse);
-          return;
-        }
-        if (requestStr.startsWith('POST /print')) {
-          const delimiter = '\r\n\r\n';
-          const bodyIndex = requestStr.indexOf(delimiter);
-          let statusLine = 'HTTP/1.1 200 OK\r\n';
-          if (bodyIndex >= 0) {
-            const body = requestStr.slice(bodyIndex + delimiter.length).trim();
-            if (body) {
-              try {
-                const invoice: Invoice = JSON.parse(body);
-                console.log('Invoice data received:', invoice);
-                await printInvoice(invoice);
-                statusLine = 'HTTP/1.1 200 OK\r\n';
-              } catch (err) {
-                console.error('Error during printing:', err);
-                statusLine = 'HTTP/1.1 500 Internal Server Error\r\n';
-              }
-            } else {
-              console.warn('POST request received but no body found.');
-              statusLine = 'HTTP/1.1 400 Bad Request\r\n';
-            }
-          } else {
-            console.warn('Invalid HTTP request format: missing header-body delimiter.');
-            statusLine = 'HTTP/1.1 400 Bad Request\r\n';
-          }
-          const postResponse =
-            statusLine +
-            'Access-Control-Allow-Origin: *\r\n' +
-            'Access-Control-Allow-Headers: Content-Type\r\n' +
-            'Content-Type: text/plain\r\n' +
-            'Content-Length: 0\r\n\r\n';
-          socket.write(postResponse);
-          return;
-        }
-        if (requestStr.startsWith('POST /ReturnToApp')) {
-          setShowWebView(false);
-          const returnResponse =
-            'HTTP/1.1 200 OK\r\n' +
-            'Access-Control-Allow-Origin: *\r\n' +
-            'Access-Control-Allow-Headers: Content-Type, authorization\r\n' +
-            'Content-Type: text/plain\r\n' +
-            'Content-Length: 0\r\n\r\n';
-          socket.write(returnResponse);
-          return;
-        }
-        // Block unknown endpoints.
-        const forbiddenResponse =
-          'HTTP/1.1 403 Forbidden\r\n' +
-          'Access-Control-Allow-Origin: *\r\n' +
-          'Content-Type: text/plain\r\n' +
-          'Content-Length: 0\r\n\r\n';
-        socket.write(forbiddenResponse);
+    previewInvoiceRef.current = previewInvoice;
+  });
+  const reprintJobRef = useRef(reprintJob);
+  useEffect(() => {
+    reprintJobRef.current = reprintJob;
+  });
+  const openCashDrawerRef = useRef(openCashDrawer);
+  useEffect(() => {
+    openCashDrawerRef.current = openCashDrawer;
+  });
+
+  // TCP server setup; only started once the security settings are loaded.
+  const serverHost = serverSecurity ? (serverSecurity.localhostOnly ? '127.0.0.1' : '0.0.0.0') : null;
+  useEffect(() => {
+    if (!serverHost) {
+      return;
+    }
+    const router = createRouter({
+      defaultHeaders: (req) => corsHeaders(req, currentServerSecurity().allowedOrigins),
+      guard: createRequestGuard({
+        getSecurity: currentServerSecurity,
+        onReject: (rejected) => {
+          console.warn('Rejected request:', rejected);
+          setRejectedRequests((previous) => [rejected, ...previous].slice(0, 10));
+        },
+      }),
+    });
+    router.add('POST', '/print', async (req) => {
+      const body = req.body.toString('utf8').trim();
+      if (!body) {
+        console.warn('POST request received but no body found.');
+        return { status: 400 };
+      }
+      let invoice: PrintRequest;
+      try {
+        invoice = JSON.parse(body);
+      } catch (err) {
+        console.warn('Invalid invoice JSON:', err);
+        return { status: 400, headers: { 'Content-Type': 'text/plain' }, body: 'Invalid JSON' };
+      }
+      console.log('Print request received:', invoice);
+      const errors = validateDocument(invoice);
+      if (errors.length > 0) {
+        console.warn('Rejected invalid invoice:', errors);
+        return jsonResponse(422, { error: 'Invalid invoice', errors });
+      }
+      if (invoice.printer != null && typeof invoice.printer !== 'string') {
+        return jsonResponse(422, { error: 'Invalid invoice', errors: [{ field: 'printer', message: 'must be a string' }] });
+      }
+      const profile = profileStoreRef.current?.resolve(invoice.printer);
+      if (invoice.printer && !profile) {
+        return jsonResponse(422, {
+          error: 'Invalid invoice',
+          errors: [{ field: 'printer', message: 'does not name a printer profile or role' }],
+        });
+      }
+      if (invoice.openDrawer && !capabilitiesFor(profile ?? null).drawer) {
+        return jsonResponse(422, {
+          error: 'Invalid invoice',
+          errors: [{ field: 'openDrawer', message: 'the printer has no cash drawer' }],
+        });
+      }
+      // Pin the job to the profile chosen now, so later changes to the default do not move it.
+      if (profile) {
+        invoice = { ...invoice, printer: profile.id };
+      }
+      try {
+        const job = await enqueueInvoice(invoice);
+        return jsonResponse(202, { jobId: job.id });
+      } catch (err) {
+        console.error('Error queueing print job:', err);
+        return { status: 500 };
+      }
+    });
+    // Opens the drawer without printing; the body may name the printer: {"printer": "..."}.
+    router.add('POST', '/drawer', async (req) => {
+      let target: { printer?: unknown } = {};
+      try {
+        const body = req.body.toString('utf8').trim();
+        target = body ? JSON.parse(body) : {};
+      } catch (err) {
+        return { status: 400, headers: { 'Content-Type': 'text/plain' }, body: 'Invalid JSON' };
+      }
+      if (target.printer != null && typeof target.printer !== 'string') {
+        throw new HttpError(400, 'printer must be a string');
+      }
+      const profile = profileStoreRef.current?.resolve(target.printer as string | undefined) ?? null;
+      if (target.printer && !profile) {
+        throw new HttpError(404, `Unknown printer: ${target.printer}`);
+      }
+      if (!capabilitiesFor(profile).drawer) {
+        throw new HttpError(409, 'The printer has no cash drawer');
+      }
+      try {
+        await openCashDrawerRef.current(profile);
+      } catch (err: any) {
+        console.error('Opening cash drawer failed:', err);
+        throw new HttpError(503, err?.message ?? 'Printer unavailable');
+      }
+      return { status: 204 };
+    });
+    router.add('POST', '/preview', (req) => {
+      let invoice: PrintRequest;
+      try {
+        invoice = JSON.parse(req.body.toString('utf8'));
+      } catch (err) {
+        return { status: 400, headers: { 'Content-Type': 'text/plain' }, body: 'Invalid JSON' };
+      }
+      const errors = validateDocument(invoice);
+      if (errors.length > 0) {
+        return jsonResponse(422, { error: 'Invalid invoice', errors });
+      }
+      let preview;
+      try {
+        preview = previewInvoiceRef.current(invoice);
+      } catch (err: any) {
+        throw new HttpError(422, err.message);
+      }
+      switch (req.query.format) {
+        case 'json':
+          return jsonResponse(200, preview);
+        case 'text':
+          return { status: 200, headers: { 'Content-Type': 'text/plain; charset=utf-8' }, body: renderPreviewText(preview) };
+        default:
+          return { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' }, body: renderPreviewHtml(preview) };
+      }
+    });
+    router.add('GET', '/status', () => {
+      const device = connectedDeviceRef.current;
+      return jsonResponse(200, {
+        connected: !!device,
+        device: device ? device.name : null,
+        // Without a notify characteristic the printer cannot report its status.
+        supported: !!candidateOf(connectionRef.current)?.notify,
+        ...printerStatusRef.current,
+      });
+    });
+    // ?printer= selects a profile's template instead of the app-wide one.
+    const templateProfile = (req: HttpRequest): PrinterProfile | null => {
+      if (!req.query.printer) {
+        return null;
+      }
+      const profile = profileStoreRef.current?.resolve(req.query.printer);
+      if (!profile) {
+        throw new HttpError(404, `Unknown printer: ${req.query.printer}`);
+      }
+      return profile;
+    };
+    router.add('GET', '/printers', () => {
+      const { profiles, defaultId } = profileStoreRef.current?.getState() ?? { profiles: [], defaultId: null };
+      return jsonResponse(200, {
+        defaultId,
+        profiles: profiles.map(({ template, ...profile }) => ({ ...profile, customTemplate: !!template })),
+      });
+    });
+    router.add('GET', '/template', (req) => {
+      const profile = templateProfile(req);
+      return jsonResponse(200, profile?.template ?? receiptTemplateRef.current ?? DEFAULT_TEMPLATE);
+    });
+    router.add('PUT', '/template', async (req) => {
+      const profile = templateProfile(req);
+      let template: unknown;
+      try {
+        template = JSON.parse(req.body.toString('utf8'));
+      } catch (err) {
+        return { status: 400, headers: { 'Content-Type': 'text/plain' }, body: 'Invalid JSON' };
+      }
+      const errors = validateTemplate(template);
+      if (errors.length > 0) {
+        return jsonResponse(400, { errors });
+      }
+      if (profile) {
+        await profileStoreRef.current!.save({ ...profile, template: template as ReceiptTemplate });
+      } else {
+        await saveReceiptTemplate(template as ReceiptTemplate);
+      }
+      console.log('Receipt template updated');
+      return { status: 204 };
+    });
+    router.add('DELETE', '/template', async (req) => {
+      const profile = templateProfile(req);
+      if (profile) {
+        await profileStoreRef.current!.save({ ...profile, template: undefined });
+      } else {
+        await saveReceiptTemplate(null);
+      }
+      return { status: 204 };
+    });
+    router.add('GET', '/jobs', () => {
+      return jsonResponse(200, {
+        queued: printQueueRef.current?.getJobs() ?? [],
+        history: printHistoryRef.current?.getEntries() ?? [],
       });
+    });
+    router.add('POST', '/jobs/:id/reprint', async (req) => {
+      let job: PrintJob | null;
+      try {
+        job = await reprintJobRef.current(req.params.id);
+      } catch (err: any) {
+        throw new HttpError(409, err.message);
+      }
+      if (!job) {
+        throw new HttpError(404, `Unknown job: ${req.params.id}`);
+      }
+      return jsonResponse(202, { jobId: job.id });
+    });
+    router.add('POST', '/ReturnToApp', () => {
+      setShowWebView(false);
+      return { status: 200 };
+    });
+
+    const tcpServer = TcpSocket.createServer((socket: any) => {
+      handleHttpConnection(socket, router);
       socket.on('error', (error: any) => {
         console.error('Socket error:', error);
       });
@@ -439,15 +1109,15 @@ const App: React.FC = () => {
         console.log('Socket closed');
       });
     });
-    tcpServer.listen({ port: 4000, host: '0.0.0.0' }, () => {
-      console.log('TCP server listening on port 4000');
+    tcpServer.listen({ port: 4000, host: serverHost }, () => {
+      console.log(`TCP server listening on ${serverHost}:4000`);
     });
     setServer(tcpServer);
     return () => {
       tcpServer.close();
       console.log('TCP server closed');
     };
-  }, []);
+  }, [serverHost]);
 
   // Configuration screen: Only subdomain is set by the user.
   if (!internetSubdomain) {
@@ -490,6 +1160,7 @@ const App: React.FC = () => {
               source={{ uri: `${internetSubdomain}` }}
               style={{ flex: 1 }}
               userAgent="WebPOS-Mobile-WebView"
+              injectedJavaScriptBeforeContentLoaded={tokenInjection()}
               onLoadStart={() => {
                 if (!hasWebviewLoaded) {
                   setWebviewLoading(true);
@@ -522,13 +1193,15 @@ const App: React.FC = () => {
         <ScrollView contentContainerStyle={styles.container}>
           <Text style={styles.title}>BLE PRINTER</Text>
           <Button
-            title="Scan BLE Devices"
+            title={printerTransport === 'spp' ? 'List Paired Devices' : 'Scan BLE Devices'}
             onPress={scanDevices}
           />
           <View style={styles.spacing} />
           {(!connectedDevice && !connecting) && (
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Discovered BLE Devices</Text>
+              <Text style={styles.sectionTitle}>
+                {printerTransport === 'spp' ? 'Paired Bluetooth Devices' : 'Discovered BLE Devices'}
+              </Text>
               <FlatList
                 data={devices}
                 keyExtractor={(item) => item.id}
@@ -539,7 +1212,7 @@ const App: React.FC = () => {
                     <Text style={styles.deviceAddress}>{item.id}</Text>
                   </TouchableOpacity>
                 )}
-                ListEmptyComponent={<Text style={styles.emptyText}>No BLE devices found.</Text>}
+                ListEmptyComponent={<Text style={styles.emptyText}>No devices found.</Text>}
               />
               <Button title="Rescan Devices" onPress={scanDevices} color="#4CAF50" />
             </View>
@@ -550,15 +1223,83 @@ const App: React.FC = () => {
           {connectedDevice && (
             <View style={styles.connectedSection}>
               <Text style={styles.connectedText}>Connected to {connectedDevice.name}</Text>
+              <Text style={styles.deviceAddress}>
+                Printer status: {candidateOf(connection)?.notify ? describeStatus(printerStatus) : 'Not supported'}
+              </Text>
               <View style={styles.buttonContainer}>
                 <Button title="Print Test Invoice" onPress={printTestMessage} color="#2196F3" />
               </View>
+              {printerCapabilities.drawer && (
+                <View style={styles.buttonContainer}>
+                  <Button
+                    title="Open Cash Drawer"
+                    onPress={() => openCashDrawer(null).catch((err) => Alert.alert('Cash Drawer', err.message))}
+                  />
+                </View>
+              )}
               <View style={styles.buttonContainer}>
                 <Button title="Disconnect" onPress={disconnectFromDevice} color="#f44336" />
               </View>
+              {renderProfileForm()}
+            </View>
+          )}
+          {printerProfiles.profiles.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Printer Profiles</Text>
+              {printerProfiles.profiles.map((profile) => (
+                <View key={profile.id} style={styles.deviceItem}>
+                  <Text style={styles.deviceText}>
+                    {profile.name}{profile.role ? ` (${profile.role})` : ''}
+                    {profile.id === printerProfiles.defaultId ? ' - default' : ''}
+                  </Text>
+                  <Text style={styles.deviceAddress}>
+                    {profile.deviceName ?? profile.deviceId} - {profile.width ?? printerWidth} columns
+                  </Text>
+                  <View style={styles.row}>
+                    {profile.id !== printerProfiles.defaultId && (
+                      <Button title="Make Default" onPress={() => profileStoreRef.current?.setDefault(profile.id)} color="#2196F3" />
+                    )}
+                    <View style={styles.jobButtonSpacing} />
+                    <Button title="Delete" onPress={() => profileStoreRef.current?.remove(profile.id)} color="#f44336" />
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+          <View style={styles.buttonContainer}>
+            <Button title={`Print History (${printHistory.length})`} onPress={() => setShowHistory(true)} />
+          </View>
+          {printJobs.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Print Queue</Text>
+              {printJobs.map((job) => (
+                <View key={job.id} style={styles.deviceItem}>
+                  <Text style={styles.deviceText}>
+                    {describeDocument(job.invoice)}
+                    {job.status === 'failed' ? ' (failed)' : ' (waiting)'}
+                  </Text>
+                  <Text style={styles.deviceAddress}>
+                    {new Date(job.createdAt).toLocaleString()}
+                    {job.lastError ? ` - ${job.lastError}` : ''}
+                  </Text>
+                  {job.status === 'failed' && (
+                    <View style={styles.row}>
+                      <Button title="Retry" onPress={() => printQueueRef.current?.retry(job.id)} color="#2196F3" />
+                      <View style={styles.jobButtonSpacing} />
+                      <Button title="Discard" onPress={() => printQueueRef.current?.discard(job.id)} color="#f44336" />
+                    </View>
+                  )}
+                </View>
+              ))}
             </View>
           )}
           <View style={styles.configSection}>
+            <View style={styles.buttonContainer}>
+              <Button
+                title="Preview Test Invoice"
+                onPress={() => setPreviewHtml(renderPreviewHtml(previewInvoice(TEST_INVOICE)))}
+              />
+            </View>
             {editingPrinterWidth ? (
               <View style={{ width: '100%' }}>
                 <TextInput
@@ -586,9 +1327,260 @@ const App: React.FC = () => {
                 <Button title="Change Printer Width" onPress={() => setEditingPrinterWidth(true)} />
               </View>
             )}
+            {editingCodePage ? (
+              <View style={{ width: '100%' }}>
+                {(Object.keys(CODE_PAGES) as CodePageName[]).map((name) => (
+                  <TouchableOpacity
+                    key={name}
+                    style={styles.deviceItem}
+                    onPress={async () => {
+                      setPrinterCodePage(name);
+                      setEditingCodePage(false);
+                      try {
+                        await AsyncStorage.setItem('printerCodePage', name);
+                        console.log("Printer code page updated to:", name);
+                      } catch (err) {
+                        console.error("Error updating printer code page", err);
+                      }
+                    }}>
+                    <Text style={styles.deviceText}>
+                      {CODE_PAGES[name].label}{name === printerCodePage ? ' ✓' : ''}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <View style={styles.buttonContainer}>
+                <Button
+                  title={`Change Code Page (${CODE_PAGES[printerCodePage].label})`}
+                  onPress={() => setEditingCodePage(true)}
+                />
+              </View>
+            )}
+            <View style={styles.buttonContainer}>
+              <Button
+                title={`Print via: ${TRANSPORT_LABELS[printerTransport]}`}
+                onPress={async () => {
+                  const next = PRINTER_TRANSPORTS[(PRINTER_TRANSPORTS.indexOf(printerTransport) + 1) % PRINTER_TRANSPORTS.length];
+                  setPrinterTransport(next);
+                  printerTransportRef.current = next;
+                  try {
+                    await AsyncStorage.setItem('printerTransport', next);
+                  } catch (err) {
+                    console.error('Error updating printer transport', err);
+                  }
+                  printQueueRef.current?.resume();
+                }}
+              />
+            </View>
+            {printerTransport === 'tcp' && (
+              <View style={{ width: '100%' }}>
+                <TextInput
+                  style={styles.input}
+                  value={networkPrinterInput}
+                  onChangeText={setNetworkPrinterInput}
+                  onEndEditing={async () => {
+                    const address = parsePrinterAddress(networkPrinterInput);
+                    if (!address) {
+                      Alert.alert('Network Printer', 'Enter the printer address as host or host:port.');
+                      return;
+                    }
+                    networkPrinterRef.current = address;
+                    try {
+                      await AsyncStorage.setItem('networkPrinter', networkPrinterInput.trim());
+                    } catch (err) {
+                      console.error('Error saving network printer', err);
+                    }
+                    printQueueRef.current?.resume();
+                  }}
+                  placeholder="Printer address (e.g. 192.168.1.50:9100)"
+                  autoCapitalize="none"
+                />
+                <View style={styles.buttonContainer}>
+                  <Button title="Print Test Invoice" onPress={printTestMessage} color="#2196F3" />
+                </View>
+                {renderProfileForm()}
+              </View>
+            )}
+            <View style={styles.buttonContainer}>
+              <Button
+                title={`Paper Cutter: ${CUTTER_LABELS[printerCapabilities.cutter]}`}
+                onPress={() => {
+                  const modes = Object.keys(CUTTER_LABELS) as PrinterCapabilities['cutter'][];
+                  updatePrinterCapabilities({ cutter: modes[(modes.indexOf(printerCapabilities.cutter) + 1) % modes.length] });
+                }}
+              />
+            </View>
+            <View style={styles.buttonContainer}>
+              <Button
+                title={`Cash Drawer: ${printerCapabilities.drawer ? `Pin ${printerCapabilities.drawer.pin}` : 'None'}`}
+                onPress={() => {
+                  // Cycles None -> Pin 2 -> Pin 5.
+                  const pin = printerCapabilities.drawer?.pin;
+                  const next: DrawerPin | null = pin == null ? 2 : pin === 2 ? 5 : null;
+                  updatePrinterCapabilities({ drawer: next ? { pin: next } : null });
+                }}
+              />
+            </View>
+            <View style={styles.buttonContainer}>
+              <Button
+                title={`Receipt Language: ${LANGUAGE_PACKS[printerLanguage].label}`}
+                onPress={async () => {
+                  const languages = Object.keys(LANGUAGE_PACKS) as LanguageCode[];
+                  const next = languages[(languages.indexOf(printerLanguage) + 1) % languages.length];
+                  setPrinterLanguage(next);
+                  try {
+                    await AsyncStorage.setItem('printerLanguage', next);
+                  } catch (err) {
+                    console.error('Error updating printer language', err);
+                  }
+                }}
+              />
+            </View>
+            <View style={styles.buttonContainer}>
+              <Button
+                title={qrSettings.qrMode === 'image' ? 'QR: Image (raster)' : 'QR: Native (GS ( k)'}
+                onPress={() => updateQrSettings({ qrMode: qrSettings.qrMode === 'image' ? 'native' : 'image' })}
+              />
+            </View>
+            {qrSettings.qrMode === 'image' && (
+              <View style={{ width: '100%' }}>
+                <View style={styles.buttonContainer}>
+                  <Button
+                    title={`QR Error Correction: ${qrSettings.qrErrorCorrection}`}
+                    onPress={() => {
+                      const index = QR_ERROR_CORRECTION_LEVELS.indexOf(qrSettings.qrErrorCorrection);
+                      const next = QR_ERROR_CORRECTION_LEVELS[(index + 1) % QR_ERROR_CORRECTION_LEVELS.length];
+                      updateQrSettings({ qrErrorCorrection: next });
+                    }}
+                  />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={qrImageSizeInput}
+                  onChangeText={setQrImageSizeInput}
+                  onEndEditing={() => {
+                    // The QR cannot be wider than the paper.
+                    const maxSize = dotWidthForColumns(parseInt(printerWidth, 10) || 48);
+                    const size = /^\d+$/.test(qrImageSizeInput.trim()) ? parseInt(qrImageSizeInput, 10) : NaN;
+                    if (size > 0 && size <= maxSize) {
+                      updateQrSettings({ qrImageSize: size });
+                    } else {
+                      Alert.alert('QR Size', `Enter a whole number of dots from 1 to ${maxSize}.`);
+                      setQrImageSizeInput(String(qrSettings.qrImageSize));
+                    }
+                  }}
+                  placeholder="QR size in dots"
+                  keyboardType="numeric"
+                />
+              </View>
+            )}
+            <Text style={styles.connectedText}>
+              Receipt Template: {receiptTemplate ? receiptTemplate.name ?? 'custom' : 'default'}
+            </Text>
+            {receiptTemplate && (
+              <View style={styles.buttonContainer}>
+                <Button
+                  title="Restore Default Template"
+                  onPress={() => saveReceiptTemplate(null).catch((err) => console.error('Error restoring template', err))}
+                />
+              </View>
+            )}
           </View>
+          {serverSecurity && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Print Server</Text>
+              <Text style={styles.deviceText}>Pairing token</Text>
+              <Text style={styles.deviceAddress} selectable>{serverSecurity.token}</Text>
+              <View style={styles.buttonContainer}>
+                <Button
+                  title="New Pairing Token"
+                  onPress={() => Alert.alert(
+                    'New Pairing Token',
+                    'Clients using the current token will have to be paired again.',
+                    [
+                      { text: 'Cancel', style: 'cancel' },
+                      { text: 'OK', onPress: () => updateServerSecurity({ token: createPairingToken(randomBytes) }) },
+                    ]
+                  )}
+                />
+              </View>
+              <TextInput
+                style={styles.input}
+                value={allowedOriginsInput}
+                onChangeText={setAllowedOriginsInput}
+                onEndEditing={() => updateServerSecurity({
+                  allowedOrigins: allowedOriginsInput.split(',').map(normalizeOrigin).filter(Boolean),
+                })}
+                placeholder={`Allowed origins (default: ${internetSubdomain})`}
+                autoCapitalize="none"
+              />
+              <View style={styles.buttonContainer}>
+                <Button
+                  title={`Listen on: ${serverSecurity.localhostOnly ? 'This device only' : 'All networks'}`}
+                  onPress={() => updateServerSecurity({ localhostOnly: !serverSecurity.localhostOnly })}
+                />
+              </View>
+              {rejectedRequests.length > 0 && (
+                <Text style={styles.deviceText}>Rejected requests</Text>
+              )}
+              {rejectedRequests.map((rejected, index) => (
+                <Text key={`${rejected.time}-${index}`} style={styles.deviceAddress}>
+                  {new Date(rejected.time).toLocaleTimeString()} {rejected.method} {rejected.path}
+                  {` - ${rejected.status} ${rejected.reason}`}
+                  {rejected.origin ? ` (${rejected.origin})` : ''}
+                  {rejected.remoteAddress ? ` from ${rejected.remoteAddress}` : ''}
+                </Text>
+              ))}
+            </View>
+          )}
         </ScrollView>
       )}
+      {showHistory && (
+        <Modal
+          visible={showHistory}
+          animationType="slide"
+          onRequestClose={() => setShowHistory(false)}
+        >
+          <ScrollView contentContainerStyle={styles.container}>
+            <Text style={styles.title}>Print History</Text>
+            {printHistory.length === 0 && <Text style={styles.emptyText}>Nothing printed yet.</Text>}
+            {printHistory.map((entry) => (
+              <View key={entry.id} style={styles.deviceItem}>
+                <Text style={styles.deviceText}>
+                  {describeDocument(entry.invoice)}
+                  {entry.invoice.copy ? ' (copy)' : ''}
+                  {entry.outcome === 'failed' ? ' - failed' : ''}
+                </Text>
+                <Text style={styles.deviceAddress}>
+                  {new Date(entry.settledAt).toLocaleString()} - {entry.printerName}
+                  {entry.error ? ` - ${entry.error}` : ''}
+                </Text>
+                <Button
+                  title="Reprint as Copy"
+                  onPress={() => reprintJob(entry.id).catch((err) => Alert.alert('Reprint failed', err.message))}
+                  color="#2196F3"
+                />
+              </View>
+            ))}
+            <View style={styles.buttonContainer}>
+              <Button title="Close History" onPress={() => setShowHistory(false)} />
+            </View>
+          </ScrollView>
+        </Modal>
+      )}
+      {previewHtml != null && (
+        <Modal
+          visible={previewHtml != null}
+          animationType="slide"
+          onRequestClose={() => setPreviewHtml(null)}
+        >
+          <View style={{ flex: 1 }}>
+            <WebView source={{ html: previewHtml }} originWhitelist={['*']} style={{ flex: 1 }} />
+            <Button title="Close Preview" onPress={() => setPreviewHtml(null)} />
+          </View>
+        </Modal>
+      )}
       {connecting && (
         <Modal
           visible={connecting}
@@ -762,6 +1754,9 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     alignItems: 'center',
   },
+  jobButtonSpacing: {
+    width: 10,
+  },
   webviewSpinner: {
     position: 'absolute',
     top: '50%',
@@ -1,68 +1,105 @@
-import { 
-  setTextSize, 
-  addBreaks, 
-  printQRCode, 
-  reset,
-  boldText,
-  centerText,
-  dottedLine,
-  leftRightText
-} from './escpos-commands';
+import { CodePageName, DEFAULT_CODE_PAGE, printableText } from './codePages';
+import { BARCODE_SYMBOLOGIES, BarcodeSymbology, CutMode, DrawerPulse } from './escpos-commands';
+import { createEscPosDocument, EscPosDocument } from './escposBuilder';
+import { dotWidthForColumns } from './imageUtils';
+import { generateQRCodeBitmap, QRErrorCorrectionLevel } from './qrImage';
+import { LanguageCode, receiptLabels } from './receiptLabels';
+import {
+  convertMinorUnits,
+  currencyInfo,
+  CurrencyCode,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  minorUnitsToString,
+  toMinorUnits,
+} from './money';
+import {
+  BarcodeSection,
+  DEFAULT_TEMPLATE,
+  ReceiptTemplate,
+  TemplateCondition,
+  TemplateSection,
+} from './receiptTemplate';
+import { columnWidths, layoutRow, textWidth, wrapWords } from './receiptTable';
+
+// Inline markup and the style toggles it becomes. The toggles stay in the
+// text as control characters, which take no width, until it is printed.
+const BOLD_TOGGLE = "\u0001";
+const UNDERLINE_TOGGLE = "\u0002";
+const INVERSE_TOGGLE = "\u0003";
+const MARKUP: Array<[string, string]> = [["**", BOLD_TOGGLE], ["__", UNDERLINE_TOGGLE], ["==", INVERSE_TOGGLE]];
 
 /**
- * Wraps a string into lines not exceeding the given width.
+ * Turns **bold**, __underline__ and ==inverse== markup into style toggles.
+ * A marker without a closing partner prints as it is.
+ */
+function parseMarkup(text: string): string {
+  return MARKUP.reduce((result, [marker, toggle]) => {
+    const parts = result.split(marker);
+    const unpaired = (parts.length - 1) % 2 === 1 ? parts.length - 1 : -1;
+    return parts.reduce((out, part, i) => out + (i === unpaired ? marker : toggle) + part);
+  }, text);
+}
+
+/**
+ * Wraps a string into lines not exceeding the given width, between words
+ * where it can.
  */
 function wrapText(text: string, width: number): string {
-  let result = "";
-  while (text.length > width) {
-    result += text.substring(0, width) + "\n";
-    text = text.substring(width);
-  }
-  result += text;
-  return result;
+  return wrapWords(text, width).join("\n");
 }
 
 /**
- * Centers text by padding each wrapped line.
+ * Prints text with its style toggles, ending the line.
  */
-function centerWrap(text: string, width: number): string {
-  const lines = wrapText(text, width).split("\n");
-  return lines
-    .map(line => {
-      const pad = Math.floor((width - line.length) / 2);
-      return " ".repeat(pad) + line;
-    })
-    .join("\n");
+function styledLine(doc: EscPosDocument, text: string): void {
+  text.split(/([\u0001-\u0003])/).forEach(part => {
+    if (part === BOLD_TOGGLE) doc.bold(!doc.style.bold);
+    else if (part === UNDERLINE_TOGGLE) doc.underline(doc.style.underline ? 0 : 1);
+    else if (part === INVERSE_TOGGLE) doc.inverse(!doc.style.inverse);
+    else doc.text(part);
+  });
+  doc.line();
 }
 
 /**
  * Formats a left/right line; wraps left text if necessary.
  */
 function leftRightTextWrapped(left: string, right: string, totalWidth: number): string {
-  const rightLen = right.length;
+  const rightLen = textWidth(right);
   const leftWidth = totalWidth - rightLen;
   if (leftWidth <= 0) return left + right;
-  const wrappedLeft = wrapText(left, leftWidth);
-  const leftLines = wrappedLeft.split("\n");
-  let result = "";
-  leftLines.forEach((line, index) => {
-    if (index === 0) {
-      result += line.padEnd(leftWidth) + right;
-    } else {
-      result += "\n" + line;
-    }
-  });
-  return result;
+  return layoutRow([left, right], [{}, {}], [leftWidth, rightLen], 0).join("\n");
 }
 
 /**
  * Returns a dotted line exactly as wide as the printer.
  */
-function dottedLineLocal(width: number): string {
-  return ".".repeat(width) + "\n";
+function dottedLineLocal(width: number, char: string = "."): string {
+  return char.repeat(Math.ceil(width / char.length)).substring(0, width) + "\n";
 }
 
-export interface Invoice {
+/**
+ * How any printed document is printed, besides its own fields.
+ */
+export interface PrintSettings {
+  // Overrides the printer's receipt language for this document.
+  language?: LanguageCode;
+  // Set on reprints; the receipt is then marked as a copy.
+  copy?: boolean;
+  // Number of receipts printed, cut apart; all but the first are marked as copies.
+  copies?: number;
+  // Text of the copy marker; defaults to the language's "copy" label.
+  copyLabel?: string;
+  // Set to false to leave the receipt uncut on a printer with a cutter.
+  cut?: boolean;
+  // Kick the cash drawer open before printing, if the printer has one.
+  openDrawer?: boolean;
+}
+
+export interface Invoice extends PrintSettings {
+  // Sales invoices may leave it out; see documents.ts for the other types.
+  documentType?: 'invoice';
   header?: string;
   invoiceType?: string;
   invNumber?: number | string;
@@ -81,6 +118,8 @@ export interface Invoice {
     fullPrice?: number;
     discountAmount?: number;
     uom?: string;
+    // EAN-13 product code, printed under the product name.
+    ean?: string;
   }>;
   totalPriceNoVat?: number;
   vat?: Array<{
@@ -89,6 +128,9 @@ export interface Invoice {
   }>;
   totalDiscount?: number;
   totalPrice?: number;
+  // Currency of the amounts above; defaults to ALL (Lek).
+  currency?: CurrencyCode;
+  // Lek per unit of a foreign currency; adds the total in Lek.
   Exrate?: number;
   CustomerName?: string;
   CustomerTin?: string;
@@ -96,158 +138,494 @@ export interface Invoice {
   CustomerAddress?: string;
   qrCode?: string;
   qrSize?: number;
+  // QR error correction level; defaults to L for native QR codes and to the printer's setting for images.
+  qrErrorCorrection?: QRErrorCorrectionLevel;
+  // PDF417 code, e.g. for ERP systems on delivery documents, with its module
+  // width (2-8) and error correction level (0-8).
+  pdf417?: string;
+  pdf417Size?: number;
+  pdf417ErrorLevel?: number;
+  // DataMatrix code with its module size (2-16).
+  dataMatrix?: string;
+  dataMatrixSize?: number;
   IIC?: string;
   FIC?: string;
   EIC?: string;
   Footer?: string;
+  // Barcode for scanning the receipt back in, e.g. the invoice number on pickup slips.
+  barcode?: string;
+  // Default is CODE128.
+  barcodeType?: BarcodeSymbology;
+  // Default is bottom, under the footer.
+  barcodePosition?: BarcodePosition;
 }
 
-// Formatter receives the invoice and the printer width (default 48).
-export function formatInvoice(invoice: Invoice, printerWidth?: number): string {
-  if (!invoice || typeof invoice !== 'object') {
-    console.error("Invalid invoice data received.");
-    return "";
-  }
+// Where the invoice barcode prints: above the header, just before the QR code, or at the end.
+export type BarcodePosition = 'top' | 'beforeQr' | 'bottom';
 
-  const width = printerWidth || 48;
-  let commands = "";
+export const BARCODE_POSITIONS: BarcodePosition[] = ['top', 'beforeQr', 'bottom'];
 
-  // **Header Section (centered)**
-  // Use ESC/POS center alignment for header items.
-  commands += centerText(width); // Align center
-  if (invoice.header) {
-    commands += wrapText(invoice.header, width) + "\n";
-  }
-  if (invoice.tin) {
-    commands += wrapText(invoice.tin, width) + "\n";
-  }
-  if (invoice.address) {
-    commands += wrapText(invoice.address, width) + "\n";
-  }
-  if (invoice.invoiceType) {
-    commands += boldText();
-    commands += setTextSize(1);
-    // Invoice type is printed centered using the printer's alignment.
-    commands += invoice.invoiceType + "\n";
-    commands += reset();
-  }
-  commands += reset(); // Reset to default settings
+// How the QR code is printed: the printer's native GS ( k command, or a
+// raster image for printers that lack it.
+export type QRMode = 'native' | 'image';
 
-  // **Invoice Details**
-  if (invoice.invNumber != null) {
-    commands += wrapText("Nr. Fatures: " + invoice.invNumber, width) + "\n";
-  }
-  if(invoice.fiscString != null) {
-    commands += wrapText(invoice.fiscString, width) + "\n";
-  }
-  if (invoice.buCode != null) {
-    commands += wrapText("Njesia e Biznesit: " + invoice.buCode, width) + "\n";
+// Printer-specific settings the formatter needs.
+export interface FormatOptions {
+  codePage?: CodePageName;
+  qrMode?: QRMode;
+  // Raster QR width in dots and error correction level (image mode only).
+  // The width is capped at the paper's printable width.
+  qrImageSize?: number;
+  qrErrorCorrection?: QRErrorCorrectionLevel;
+  // Layout to print; defaults to DEFAULT_TEMPLATE.
+  template?: ReceiptTemplate;
+  // Receipt language when the invoice does not name one.
+  language?: LanguageCode;
+  // The printer's paper cutter; receipts are only cut at the end when it has one.
+  cutter?: CutMode | 'none';
+  // The cash drawer wired to the printer, if any.
+  drawer?: DrawerPulse | null;
+}
+
+/**
+ * Adds the QR code in the configured mode, centered, at the invoice's error
+ * correction level or else the printer's. A QR that does not fit that level
+ * is retried at level L; a raster QR that still does not fit is printed
+ * natively, and data too long for any QR code is left out. A raster QR is no
+ * wider than the paper of a printer width columns wide.
+ */
+function addQRCode(
+  doc: EscPosDocument,
+  data: string,
+  moduleSize: number,
+  level: QRErrorCorrectionLevel | undefined,
+  width: number,
+  options: FormatOptions
+): void {
+  doc.align('center');
+  if (options.qrMode === 'image') {
+    const size = Math.min(options.qrImageSize ?? 256, dotWidthForColumns(width));
+    const levels: QRErrorCorrectionLevel[] = [level ?? options.qrErrorCorrection ?? 'M', 'L'];
+    for (const imageLevel of levels) {
+      try {
+        doc.raster(generateQRCodeBitmap(data, size, imageLevel)).align('left');
+        return;
+      } catch (err) {
+        console.warn(`QR code does not fit error correction level ${imageLevel}:`, err);
+      }
+    }
   }
-  if (invoice.opCode != null) {
-    commands += wrapText("Kodi Operatorit: " + invoice.opCode, width) + "\n";
+  for (const nativeLevel of [level ?? 'L', 'L'] as QRErrorCorrectionLevel[]) {
+    try {
+      doc.qr(data, { size: Math.max(1, Math.min(moduleSize, 8)), errorCorrection: nativeLevel });
+      break;
+    } catch (err) {
+      console.warn(`QR code does not fit error correction level ${nativeLevel}:`, err);
+    }
   }
-  if (invoice.Date != null) {
-    commands += wrapText("Data: " + invoice.Date, width) + "\n";
+  doc.align('left');
+}
+
+/**
+ * Adds a centered PDF417 or DataMatrix code; data too long for the symbol is
+ * left out rather than printed unreadable.
+ */
+function add2DCode(doc: EscPosDocument, print: () => void): void {
+  doc.align("center");
+  try {
+    print();
+  } catch (err) {
+    console.warn("2D code left out:", err);
   }
-  if (invoice.FiscDateRange != null) {
-    commands += wrapText("Periudha e faturimit: " + invoice.FiscDateRange, width) + "\n";
+  doc.align("left");
+}
+
+/**
+ * Adds a centered barcode; data the symbology cannot encode prints as text
+ * so the receipt still carries it.
+ */
+function addBarcode(doc: EscPosDocument, data: string, symbology: string, section: BarcodeSection): void {
+  doc.align("center");
+  const type = BARCODE_SYMBOLOGIES.find(s => s === symbology) ?? "CODE128";
+  try {
+    doc.barcode(type, data, { height: section.height, width: section.width, text: section.text });
+  } catch (err) {
+    console.warn(`Barcode ${type} cannot encode ${data}:`, err);
+    doc.line(data);
   }
-  if (invoice.TaxPointDate != null) {
-    commands += wrapText("Tax point date: " + invoice.TaxPointDate, width) + "\n";
+  doc.align("left");
+}
+
+// Values a template binding can see, innermost first.
+type Scope = Record<string, unknown>;
+
+const BINDING = /\{\{\s*([^}|]+?)\s*(?:\|\s*([^}]+?)\s*)?\}\}/g;
+
+function lookup(path: string, scopes: Scope[]): unknown {
+  const [head, ...rest] = path.split(".");
+  const scope = scopes.find(s => s[head] !== undefined);
+  let value: unknown = scope?.[head];
+  for (const key of rest) {
+    if (value == null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Scope)[key];
   }
-  commands += dottedLineLocal(width);
-
-  // **Products Section**
-  if (Array.isArray(invoice.lines) && invoice.lines.length > 0) {
-    invoice.lines.forEach((line) => {
-      if (line.quantity != null && line.price != null) {
-        const leftText = `${line.quantity}  ${line.uom ?? ""}  x ${Number(line.price).toFixed(2)}L`;
-        if (line.fullPrice != null) {
-          const rightText = `${Number(line.fullPrice).toFixed(2)}L`;
-          commands += leftRightTextWrapped(leftText, rightText, width) + "\n";
-        } else {
-          commands += wrapText(leftText, width) + "\n";
-        }
-        if (line.discountAmount != null) {
-          const leftDiscount = line.productName ?? "";
-          const afterDiscount = (line.fullPrice ?? 0) - line.discountAmount;
-          const rightDiscount = " -" + line.discountAmount.toString() + "L " + afterDiscount.toString() + "L";
-          commands += leftRightTextWrapped(leftDiscount, rightDiscount, width) + "\n";
-        } else {
-          const leftProd = line.productName ?? "";
-          commands += leftRightTextWrapped(leftProd, "", width) + "\n";
-        }
+  return value;
+}
+
+// Width and height scale of a section size.
+function scaleOf(size: number | [number, number] | undefined): [number, number] {
+  return Array.isArray(size) ? size : [size ?? 1, size ?? 1];
+}
+
+// A number set directly or through a binding; undefined when unset.
+function numberOf(value: number | string | undefined, scopes: Scope[]): number | undefined {
+  if (typeof value !== "string") return value;
+  const text = interpolate(value, scopes);
+  return text === "" || !Number.isFinite(Number(text)) ? undefined : Number(text);
+}
+
+function isQRLevel(value: string): value is QRErrorCorrectionLevel {
+  return ["L", "M", "Q", "H"].includes(value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value != null && value !== "";
+}
+
+function matches(condition: TemplateCondition | undefined, scopes: Scope[]): boolean {
+  if (condition === undefined) return true;
+  const paths = Array.isArray(condition) ? condition : [condition];
+  return paths.every(path =>
+    path.startsWith("!") ? !isPresent(lookup(path.substring(1), scopes)) : isPresent(lookup(path, scopes))
+  );
+}
+
+function applyFilter(value: unknown, filter: string, scopes: Scope[]): unknown {
+  const [name, arg] = filter.split(":").map(part => part.trim());
+  switch (name) {
+    case "money": {
+      // Amount in the invoice currency, or in the currency given as argument.
+      const currency = arg || String(lookup("currency", scopes) ?? DEFAULT_CURRENCY);
+      try {
+        return formatMoney(value as number | string, { currency, language: String(lookup("language", scopes)) });
+      } catch (err) {
+        return value;
       }
-    });
-    commands += dottedLineLocal(width);
+    }
+    case "fixed": {
+      const number = Number(value);
+      return Number.isFinite(number) ? number.toFixed(Number(arg ?? 2)) : value;
+    }
+    case "upper":
+      return String(value).toUpperCase();
+    case "lower":
+      return String(value).toLowerCase();
+    default:
+      return value;
   }
+}
 
-  // **Totals**
-  if (invoice.totalPriceNoVat != null) {
-    const leftText = "SHUMA PA TVSH";
-    const rightText = invoice.totalPriceNoVat + "L";
-    commands += leftRightTextWrapped(leftText, rightText, width) + "\n";
-  }
-  if (invoice.totalDiscount != null) {
-    const leftText = "ZBRITJA TOTALE";
-    const rightText = invoice.totalDiscount.toString() + "L";
-    commands += leftRightTextWrapped(leftText, rightText, width) + "\n";
+/**
+ * Replaces {{field}} and {{field|filter}} bindings; missing fields print empty.
+ */
+function interpolate(text: string, scopes: Scope[]): string {
+  return text.replace(BINDING, (_match, path: string, filter?: string) => {
+    let value = lookup(path, scopes);
+    if (value == null) return "";
+    if (filter) value = applyFilter(value, filter, scopes);
+    return String(value);
+  });
+}
+
+/**
+ * Runs an exact money calculation; returns undefined when an amount is not a
+ * valid number.
+ */
+function exactAmount(calculate: () => bigint, decimals: number): string | undefined {
+  try {
+    return minorUnitsToString(calculate(), decimals);
+  } catch (err) {
+    console.warn("Invalid amount in invoice:", err);
+    return undefined;
   }
+}
 
-  // **VAT Section**
-  if (Array.isArray(invoice.vat) && invoice.vat.length > 0) {
-    invoice.vat.forEach((vatItem) => {
-      if (vatItem.vatType != null && vatItem.amount != null) {
-        const leftText = "TVSH " + vatItem.vatType;
-        const rightText = vatItem.amount + "L";
-        commands += leftRightTextWrapped(leftText, rightText, width) + "\n";
+/**
+ * Fields every document's templates see: the document's own, plus label (the
+ * receipt labels in the chosen language), the resolved language and the copy
+ * marker.
+ */
+export function documentData(document: PrintSettings, options: FormatOptions): Scope {
+  const language = document.language ?? options.language;
+  return {
+    ...document,
+    label: receiptLabels(language),
+    language,
+    copy: document.copy || undefined,
+    copyLabel: document.copyLabel || receiptLabels(language).copy,
+  };
+}
+
+/**
+ * Invoice fields as templates see them, with derived values added:
+ * - the fields of documentData
+ * - currency: resolved, with the default applied
+ * - foreignCurrency: the currency code unless it is Lek
+ * - totalPriceLek: totalPrice converted with Exrate, for foreign currencies
+ * - lines[].afterDiscount: fullPrice minus discountAmount
+ */
+export function invoiceData(invoice: Omit<Invoice, "documentType">, options: FormatOptions): Scope {
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const { decimals } = currencyInfo(currency);
+  const foreign = currency !== DEFAULT_CURRENCY;
+  const lekDecimals = currencyInfo(DEFAULT_CURRENCY).decimals;
+  const barcodePosition = invoice.barcodePosition ?? "bottom";
+  return {
+    ...documentData(invoice, options),
+    currency,
+    // The barcode under the name of its position, for the template conditions.
+    barcodeTop: barcodePosition === "top" ? invoice.barcode : undefined,
+    barcodeBeforeQr: barcodePosition === "beforeQr" ? invoice.barcode : undefined,
+    barcodeBottom: barcodePosition === "bottom" ? invoice.barcode : undefined,
+    foreignCurrency: foreign ? currency : undefined,
+    totalPriceLek:
+      foreign && invoice.Exrate != null && invoice.totalPrice != null
+        ? exactAmount(
+          () => convertMinorUnits(toMinorUnits(invoice.totalPrice as number, lekDecimals), invoice.Exrate as number),
+          lekDecimals
+        )
+        : undefined,
+    lines: invoice.lines?.map(line => {
+      const afterDiscount =
+        line.discountAmount != null
+          ? exactAmount(
+            () => toMinorUnits(line.fullPrice ?? 0, decimals) - toMinorUnits(line.discountAmount as number, decimals),
+            decimals
+          )
+          : undefined;
+      // What the line adds to the total: after discount, else the full price, else quantity x price.
+      const lineTotal =
+        afterDiscount ??
+        line.fullPrice ??
+        (line.quantity != null && line.price != null
+          ? exactAmount(
+            () => convertMinorUnits(toMinorUnits(line.price as number, decimals), line.quantity as number),
+            decimals
+          )
+          : undefined);
+      return { ...line, afterDiscount, lineTotal };
+    }),
+  };
+}
+
+/**
+ * Prints each section of a template; returns whether anything was printed.
+ */
+function renderSections(
+  doc: EscPosDocument,
+  sections: TemplateSection[],
+  scopes: Scope[],
+  width: number,
+  options: FormatOptions,
+  txt: (text: string) => string
+): boolean {
+  let printed = false;
+  sections.forEach(section => {
+    if (!matches(section.if, scopes)) return;
+    switch (section.type) {
+      case "text": {
+        const [w, h] = scaleOf(section.size);
+        const underline = section.underline === true ? 1 : section.underline || 0;
+        doc.align(section.align ?? "left").bold(!!section.bold).underline(underline).inverse(!!section.inverse);
+        doc.font(section.font ?? "A").upsideDown(!!section.upsideDown).size(w, h);
+        // Font B fits 4 characters in the width of 3.
+        const columns = section.font === "B" ? Math.floor((width * 4) / 3) : width;
+        const text = interpolate(section.text, scopes);
+        styledLine(doc, wrapText(txt(section.markup ? parseMarkup(text) : text), Math.max(1, Math.floor(columns / w))));
+        doc.resetStyle();
+        break;
       }
-    });
-  }
+      case "leftRight": {
+        const markup = (text: string) => (section.markup ? parseMarkup(text) : text);
+        const [w, h] = scaleOf(section.size);
+        doc.align("left").bold(!!section.bold).size(w, h);
+        const left = txt(markup(interpolate(section.left, scopes)));
+        const right = txt(markup(interpolate(section.right, scopes)));
+        styledLine(doc, leftRightTextWrapped(left, right, Math.max(1, Math.floor(width / w))));
+        doc.bold(false).underline(0).inverse(false).size(1, 1);
+        break;
+      }
+      case "table": {
+        const items = lookup(section.items, scopes);
+        if (!Array.isArray(items)) return;
+        const [w, h] = scaleOf(section.size);
+        // Columns are dropped by the paper width, and sized at the table's scale.
+        const columns = section.columns.filter(column => (column.minPaper ?? 0) <= width);
+        const rows = items
+          .map(item => [item as Scope, ...scopes])
+          .filter(itemScopes => matches(section.where, itemScopes))
+          .map(itemScopes => ({
+            itemScopes,
+            cells: columns.map(column => {
+              const text = interpolate(column.text, itemScopes);
+              return txt(column.markup ? parseMarkup(text) : text);
+            }),
+          }));
+        if (rows.length === 0) return;
+        const header = columns.some(column => column.header)
+          ? columns.map(column => txt(interpolate(column.header ?? "", rows[0].itemScopes)))
+          : null;
+        const cells = header ? [header, ...rows.map(row => row.cells)] : rows.map(row => row.cells);
+        const widths = columnWidths(columns, Math.max(1, Math.floor(width / w)), 1, cells);
+        const printRow = (row: string[]) => {
+          doc.align("left").size(w, h);
+          layoutRow(row, columns, widths).forEach(line => styledLine(doc, line));
+          doc.resetStyle();
+        };
+        if (header) {
+          doc.bold(true);
+          printRow(header);
+        }
+        rows.forEach(row => {
+          printRow(row.cells);
+          if (section.details) {
+            renderSections(doc, section.details, row.itemScopes, width, options, txt);
+          }
+        });
+        if (section.after) {
+          renderSections(doc, section.after, scopes, width, options, txt);
+        }
+        break;
+      }
+      case "divider":
+        doc.text(dottedLineLocal(width, section.char));
+        break;
+      case "feed":
+        doc.feed(section.lines ?? 1);
+        break;
+      case "qr": {
+        const data = interpolate(section.data, scopes);
+        if (!data) return;
+        const level = interpolate(section.errorCorrection ?? "", scopes);
+        const moduleSize = numberOf(section.size, scopes) || 7;
+        addQRCode(doc, data, moduleSize, isQRLevel(level) ? level : undefined, width, options);
+        break;
+      }
+      case "pdf417": {
+        const data = interpolate(section.data, scopes);
+        if (!data) return;
+        const errorLevel = numberOf(section.errorLevel, scopes);
+        add2DCode(doc, () => doc.pdf417(data, { moduleWidth: numberOf(section.size, scopes) || undefined, errorLevel }));
+        break;
+      }
+      case "dataMatrix": {
+        const data = interpolate(section.data, scopes);
+        if (!data) return;
+        add2DCode(doc, () => doc.dataMatrix(data, { size: numberOf(section.size, scopes) || undefined }));
+        break;
+      }
+      case "barcode": {
+        const data = interpolate(section.data, scopes);
+        if (!data) return;
+        addBarcode(doc, data, interpolate(section.symbology ?? "CODE128", scopes), section);
+        break;
+      }
+      case "each": {
+        const items = lookup(section.items, scopes);
+        if (!Array.isArray(items)) return;
+        let any = false;
+        items.forEach(item => {
+          const itemScopes = [item as Scope, ...scopes];
+          if (matches(section.where, itemScopes)) {
+            any = renderSections(doc, section.sections, itemScopes, width, options, txt) || any;
+          }
+        });
+        if (!any) return;
+        if (section.after) {
+          renderSections(doc, section.after, scopes, width, options, txt);
+        }
+        break;
+      }
+    }
+    printed = true;
+  });
+  return printed;
+}
 
-  if (invoice.totalPrice != null) {
-    commands += boldText();
-    const leftText = "SHUMA Leke";
-    const rightText = invoice.totalPrice + "L";
-    commands += leftRightTextWrapped(leftText, rightText, width) + "\n";
-    commands += reset();
-  }
+// Most receipts one print request may produce; renderDocument prints no more.
+export const MAX_COPIES = 10;
 
-  commands += reset();
-
-  // **Customer Info (centered)**
-  commands += centerWrap(
-    (invoice.CustomerName || "") +
-    (invoice.CustomerTin ? "\n" + invoice.CustomerTin : "") +
-    (invoice.CustomerContact ? "\n" + invoice.CustomerContact : "") +
-    (invoice.CustomerAddress ? "\n" + invoice.CustomerAddress : ""),
-    width
-  ) + "\n";
-  commands += reset();
-  commands += addBreaks(1);
-
-  // **QR Code (centered)**
-  if (invoice.qrCode) {
-    const qrSize = invoice.qrSize ?? 7;
-    commands += printQRCode(invoice.qrCode, qrSize);
-  }
+// Printed above every copy, whatever the template: reprints must be marked.
+const COPY_BANNER: TemplateSection = {
+  type: "text",
+  text: " {{copyLabel}} ",
+  align: "center",
+  bold: true,
+  inverse: true,
+  size: 2,
+};
 
-  if (invoice.IIC) {
-    commands += centerWrap("IIC:" + invoice.IIC, width) + "\n";
+/**
+ * Lays out an invoice with the given template and returns the printer bytes.
+ * Templates are plain JSON (see receiptTemplate.ts), so shops can change the
+ * layout without a new build. With invoice.copies the receipt repeats, cut
+ * apart, and every receipt after the first is marked as a copy. Copies are
+ * cut apart with a full cut unless the printer is known to have no cutter.
+ */
+export function renderTemplate(
+  template: ReceiptTemplate,
+  invoice: Invoice,
+  printerWidth?: number,
+  options: FormatOptions = {}
+): Uint8Array {
+  return renderDocument(template, invoice, invoiceData, printerWidth, options);
+}
+
+/**
+ * Lays out any document with a template, as renderTemplate does for invoices;
+ * prepare turns the document into the fields its template binds to.
+ */
+export function renderDocument<T extends PrintSettings>(
+  template: ReceiptTemplate,
+  document: T,
+  prepare: (document: T, options: FormatOptions) => Record<string, unknown>,
+  printerWidth?: number,
+  options: FormatOptions = {}
+): Uint8Array {
+  const width = printerWidth || 48;
+  const codePage = options.codePage ?? DEFAULT_CODE_PAGE;
+  // Text as it will print on this code page, so widths are measured correctly.
+  const txt = (text: string) => printableText(text, codePage);
+  const doc = createEscPosDocument({ codePage }).init();
+  if (document.openDrawer && options.drawer) {
+    doc.drawer(options.drawer);
   }
-  if (invoice.FIC) {
-    commands += centerWrap("FIC:" + invoice.FIC, width) + "\n";
+  const cutter = document.cut === false ? 'none' : options.cutter;
+  const requested = Math.floor(Number(document.copies ?? 1));
+  const copies = Number.isFinite(requested) ? Math.max(1, Math.min(requested, MAX_COPIES)) : 1;
+  for (let i = 0; i < copies; i++) {
+    if (i > 0 && cutter !== 'none') {
+      doc.cut(cutter === 'partial');
+    }
+    const copy = i > 0 || !!document.copy;
+    const data = prepare(copy ? { ...document, copy } : document, options);
+    renderSections(doc, copy ? [COPY_BANNER, ...template.sections] : template.sections, [data], width, options, txt);
+    doc.feed(template.tailFeed ?? 4);
   }
-  if (invoice.EIC) {
-    commands += centerWrap("EIC:" + invoice.EIC, width) + "\n";
+  if (cutter && cutter !== 'none') {
+    doc.cut(cutter === 'partial');
   }
-  
+  return doc.build();
+}
 
-  // **Footer (centered)**
-  if (invoice.Footer) {
-    commands += centerWrap(invoice.Footer, width) + "\n";
+// Formatter receives the invoice, the printer width (default 48) and the
+// printer's settings, and returns the bytes to send to the printer.
+export function formatInvoice(invoice: Invoice, printerWidth?: number, options: FormatOptions = {}): Uint8Array {
+  if (!invoice || typeof invoice !== 'object') {
+    console.error("Invalid invoice data received.");
+    return new Uint8Array(0);
   }
-
-  commands += addBreaks(4);
-  return commands;
+  return renderTemplate(options.template ?? DEFAULT_TEMPLATE, invoice, printerWidth, options);
 }
@@ -0,0 +1,97 @@
+import { Buffer } from 'buffer';
+import { formatInvoice, FormatOptions, Invoice, MAX_COPIES } from '../InvoiceFormatter';
+import { interpretEscPos, PreviewBlock } from '../escposPreview';
+import { generateQRCodeBitmap } from '../qrImage';
+
+const format = (invoice: Invoice, width?: number, options?: FormatOptions) =>
+  Buffer.from(formatInvoice(invoice, width, options)).toString('latin1');
+
+const QR_NATIVE = '\x1D\x28\x6B';
+const RASTER = '\x1D\x76\x30';
+
+test('prints the QR code natively by default', () => {
+  const commands = format({ qrCode: 'https://efiskalizimi.tatime.gov.al/invoice-check' });
+  expect(commands).toContain(QR_NATIVE);
+  expect(commands).not.toContain(RASTER);
+});
+
+test('prints the QR code as a raster image in image mode', () => {
+  const commands = format(
+    { qrCode: 'https://efiskalizimi.tatime.gov.al/invoice-check' },
+    32,
+    { qrMode: 'image', qrImageSize: 200, qrErrorCorrection: 'H' },
+  );
+  expect(commands).toContain(RASTER);
+  expect(commands).not.toContain(QR_NATIVE);
+});
+
+test('keeps raster QR codes within the paper width', () => {
+  const commands = format({ qrCode: 'https://efiskalizimi.tatime.gov.al/invoice-check' }, 32, {
+    qrMode: 'image',
+    qrImageSize: 5000,
+  });
+  const header = commands.indexOf(RASTER);
+  const bytesPerRow = commands.charCodeAt(header + 4) | (commands.charCodeAt(header + 5) << 8);
+  expect(bytesPerRow).toBeGreaterThan(0);
+  expect(bytesPerRow * 8).toBeLessThanOrEqual(384);
+});
+
+test('renders QR bitmaps with whole-dot modules and a quiet zone', () => {
+  const bitmap = generateQRCodeBitmap('hello', 200, 'M', 2);
+  // Version 1 is 21 modules; 25 with the quiet zone, 8 dots each.
+  expect(bitmap.width).toBe(200);
+  expect(bitmap.height).toBe(200);
+  expect(bitmap.data[0]).toBe(0);
+  expect(bitmap.data[16 * 200 + 16]).toBe(1);
+});
+
+test('falls back to a lower error correction level for long data', () => {
+  const data = 'x'.repeat(2500);
+  const commands = format({ qrCode: data }, 48, { qrMode: 'image', qrErrorCorrection: 'H', qrImageSize: 576 });
+  expect(commands).toContain(RASTER);
+});
+
+test('repeats the receipt per copy, cut apart and marked from the second copy', () => {
+  const invoice: Invoice = { invNumber: 5, totalPrice: 10, copies: 3 };
+  const { blocks } = interpretEscPos(formatInvoice(invoice, 32), { width: 32 });
+  const receipts: PreviewBlock[][] = [[]];
+  blocks.forEach(block => (block.type === 'cut' ? receipts.push([]) : receipts[receipts.length - 1].push(block)));
+  expect(receipts).toHaveLength(3);
+  const markers = receipts.map(receipt =>
+    receipt.flatMap(block => (block.type === 'text' ? block.segments : [])).find(s => s.style.inverse),
+  );
+  expect(markers[0]).toBeUndefined();
+  expect(markers[1]!.text.trim()).toBe('KOPJE');
+  expect(markers[2]!.text.trim()).toBe('KOPJE');
+
+  const labelled = interpretEscPos(formatInvoice({ ...invoice, copies: 2, copyLabel: 'DUPLIKATE' }, 32), { width: 32 });
+  expect(JSON.stringify(labelled.blocks)).toContain('DUPLIKATE');
+  expect(format({ invNumber: 5 }, 32)).not.toContain('\x1DV');
+});
+
+test('prints at most MAX_COPIES receipts and one for a copies that is not a number', () => {
+  const count = (invoice: Invoice) => format(invoice, 32).split('KOPJE').length;
+  expect(count({ invNumber: 5, copies: 10000000 })).toBe(MAX_COPIES);
+  expect(count({ invNumber: 5, copies: 'many' as unknown as number })).toBe(1);
+});
+
+test('marks copies even when a custom template has no copy section', () => {
+  const template = { sections: [{ type: 'text' as const, text: 'INV {{invNumber}}' }] };
+  const commands = formatInvoice({ invNumber: 5, copy: true, copies: 2 }, 32, { template });
+  const text = JSON.stringify(interpretEscPos(commands, { width: 32 }).blocks);
+  expect(text.match(/KOPJE/g)).toHaveLength(2);
+  expect(text.match(/INV 5/g)).toHaveLength(2);
+});
+
+test('cuts and opens the drawer only on printers that have them', () => {
+  const blockTypes = (invoice: Invoice, options?: FormatOptions) =>
+    interpretEscPos(formatInvoice(invoice, 32, options), { width: 32 })
+      .blocks.map(block => block.type)
+      .filter(type => type === 'cut' || type === 'drawer');
+  const printer: FormatOptions = { cutter: 'partial', drawer: { pin: 2 } };
+  expect(blockTypes({ invNumber: 5 }, printer)).toEqual(['cut']);
+  expect(blockTypes({ invNumber: 5, copies: 2, openDrawer: true }, printer)).toEqual(['drawer', 'cut', 'cut']);
+  expect(blockTypes({ invNumber: 5, copies: 2, cut: false }, printer)).toEqual([]);
+  expect(blockTypes({ invNumber: 5, openDrawer: true }, { cutter: 'none', drawer: null })).toEqual([]);
+  expect(format({ invNumber: 5 }, 32, printer)).toContain('\x1DV\x01');
+});
@@ -0,0 +1,56 @@
+import {
+  chunkPayload,
+  chunkSizeForMtu,
+  hasCharacteristicProperty,
+  writeChunked,
+  writeTimeoutFor,
+} from '../bleWriter';
+
+test('chunk size leaves room for the ATT header', () => {
+  expect(chunkSizeForMtu(23)).toBe(20);
+  expect(chunkSizeForMtu(185)).toBe(182);
+  expect(chunkSizeForMtu(0)).toBe(20);
+  expect(chunkSizeForMtu(1024)).toBe(509);
+});
+
+test('splits a payload into chunks', () => {
+  expect(chunkPayload([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  expect(chunkPayload([], 20)).toEqual([]);
+});
+
+test('timeout grows with the payload size', () => {
+  expect(writeTimeoutFor(4000, 20)).toBeGreaterThan(writeTimeoutFor(200, 20));
+  expect(writeTimeoutFor(200, 182)).toBe(3200);
+});
+
+test('reads characteristic properties in every shape', () => {
+  expect(hasCharacteristicProperty({ properties: { Write: 'Write' } }, 'write')).toBe(true);
+  expect(hasCharacteristicProperty({ properties: ['WriteWithoutResponse'] }, 'writeWithoutResponse')).toBe(true);
+  expect(hasCharacteristicProperty({ properties: 'Read, Notify' }, 'notify')).toBe(true);
+  expect(hasCharacteristicProperty({ properties: 'Read' }, 'write')).toBe(false);
+  expect(hasCharacteristicProperty({}, 'write')).toBe(false);
+});
+
+test('writes every chunk in order', async () => {
+  const written: number[][] = [];
+  await writeChunked([1, 2, 3, 4, 5], {
+    chunkSize: 2,
+    chunkDelay: 0,
+    withResponse: false,
+    write: async chunk => {
+      written.push(chunk);
+    },
+  });
+  expect(written).toEqual([[1, 2], [3, 4], [5]]);
+});
+
+test('rejects when the write takes too long', async () => {
+  await expect(
+    writeChunked([1, 2, 3], {
+      chunkSize: 1,
+      withResponse: true,
+      timeout: 10,
+      write: () => new Promise(() => {}),
+    }),
+  ).rejects.toThrow('Print timeout');
+});
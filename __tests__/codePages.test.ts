@@ -0,0 +1,30 @@
+import { CODE_PAGES, encodeText, transliterate, codePageCommand } from '../codePages';
+import { formatInvoice } from '../InvoiceFormatter';
+import { Buffer } from 'buffer';
+
+test('every code page maps the upper half of the byte range', () => {
+  Object.values(CODE_PAGES).forEach(page => {
+    expect(page.upper).toHaveLength(128);
+  });
+});
+
+test('encodes Albanian letters for the selected code page', () => {
+  expect(encodeText('ëç', 'cp858')).toBe('\x89\x87');
+  expect(encodeText('ëç', 'cp1250')).toBe('\xEB\xE7');
+  expect(encodeText('€', 'cp858')).toBe('\xD5');
+  expect(encodeText('plain', 'cp437')).toBe('plain');
+});
+
+test('transliterates characters the code page lacks', () => {
+  expect(encodeText('€5', 'cp437')).toBe('EUR5');
+  expect(encodeText('“Ø”', 'cp852')).toBe('"O"');
+  expect(encodeText('ł', 'cp1252')).toBe('l');
+  expect(encodeText('漢', 'cp858')).toBe('?');
+  expect(transliterate('ë')).toBe('e');
+});
+
+test('formatInvoice selects the code page and encodes text', () => {
+  const commands = Buffer.from(formatInvoice({ header: 'Dyqani Çelësi' }, 48, { codePage: 'cp1250' })).toString('latin1');
+  expect(commands.startsWith('\x1B\x40' + codePageCommand('cp1250'))).toBe(true);
+  expect(commands).toContain('Dyqani \xC7el\xEBsi');
+});
@@ -0,0 +1,113 @@
+import { CreditNote } from '../creditNote';
+import { describeDocument, formatDocument, PrintDocument, validateDocument } from '../documents';
+import { interpretEscPos, renderPreviewText } from '../escposPreview';
+import { KitchenTicket } from '../kitchenTicket';
+
+const preview = (document: PrintDocument) =>
+  renderPreviewText(interpretEscPos(formatDocument(document, 32, { language: 'en' }), { width: 32 }));
+
+const ticket = (): KitchenTicket => ({
+  documentType: 'kitchenTicket',
+  orderNumber: 7,
+  table: '12',
+  items: [
+    { name: 'Burger', quantity: 2, modifiers: ['well done'] },
+    { name: 'Fries', quantity: 1, notes: 'extra salt' },
+  ],
+  notes: 'Allergy: nuts',
+});
+
+const creditNote = (): CreditNote => ({
+  documentType: 'creditNote',
+  invNumber: '5/2024',
+  originalIIC: 'ABCDEF0123456789',
+  originalInvNumber: '3/2024',
+  reason: 'Returned goods',
+  lines: [{ productName: 'Soap', quantity: -2, price: 2.5, fullPrice: -5, discountAmount: -0.5 }],
+  totalPriceNoVat: -4.5,
+  vat: [{ vatType: '20%', amount: -0.9 }],
+  totalPrice: -5.4,
+});
+
+test('prints kitchen tickets without prices', () => {
+  const text = preview(ticket());
+  expect(text).toContain('Order #7');
+  expect(text).toContain('Table: 12');
+  expect(text).toMatch(/2x Burger\n\s+\+ well done\n\s+1x Fries\n\s+! extra salt/);
+  expect(text).toContain('Allergy: nuts');
+  // Order notes are not repeated under items without notes.
+  expect(text.match(/Allergy/g)).toHaveLength(1);
+  expect(text).not.toMatch(/\d\.\d\d/);
+});
+
+test('prints credit notes with the original invoice and negative amounts', () => {
+  const text = preview(creditNote());
+  expect(text).toContain('CREDIT NOTE');
+  expect(text).toContain('Invoice No.: 3/2024');
+  expect(text).toContain('IIC: ABCDEF0123456789');
+  expect(text).toContain('Reason: Returned goods');
+  expect(text).toMatch(/Discount\s+-0\.50L/);
+  expect(text).toMatch(/TOTAL ALL\s+-5\.40L/);
+});
+
+test('prints cash slips with their direction and amount', () => {
+  const text = preview({ documentType: 'cashOut', amount: 1500, reason: 'Supplier', language: 'it' });
+  expect(text).toContain('PRELIEVO');
+  expect(text).toMatch(/Importo\s+1\.500,00L/);
+  expect(text).toContain('Firma:');
+  expect(preview({ documentType: 'cashIn', amount: 20 })).toContain('CASH IN');
+});
+
+test('prints documents without a type as invoices', () => {
+  const text = preview({ invNumber: 3, totalPrice: 12 });
+  expect(text).toContain('Invoice No.: 3');
+  expect(text).not.toContain('CREDIT NOTE');
+});
+
+test('validates each document with the rules of its type', () => {
+  expect(validateDocument(ticket())).toEqual([]);
+  expect(validateDocument(creditNote())).toEqual([]);
+  expect(validateDocument({ documentType: 'cashIn', amount: 50, currency: 'EUR' })).toEqual([]);
+
+  const soup = { name: 'Soup', quantity: 0, modifiers: 'hot' };
+  expect(validateDocument({ documentType: 'kitchenTicket', items: [soup] })).toEqual([
+    { field: 'orderNumber', message: 'is required' },
+    { field: 'items[0].quantity', message: 'must be a number greater than zero' },
+    { field: 'items[0].modifiers', message: 'must be a list of strings' },
+  ]);
+  expect(validateDocument({ documentType: 'cashOut', amount: -5, copies: 20 })).toEqual([
+    { field: 'copies', message: 'must be a whole number from 1 to 10' },
+    { field: 'amount', message: 'must be a number greater than zero' },
+  ]);
+  expect(validateDocument({ documentType: 'receipt' })).toEqual([
+    { field: 'documentType', message: 'must be one of invoice, creditNote, kitchenTicket, cashIn, cashOut' },
+  ]);
+  expect(validateDocument({ invNumber: 1 })).toContainEqual({ field: 'totalPrice', message: 'is required' });
+});
+
+test('requires credit notes to refer to an invoice and to be negative', () => {
+  const note: any = { ...creditNote(), originalIIC: undefined };
+  note.lines = [{ productName: 'Soap', quantity: 2, price: 2.5 }];
+  note.totalPriceNoVat = 5;
+  note.vat = [];
+  note.totalPrice = 5;
+  expect(validateDocument(note)).toEqual([
+    { field: 'originalIIC', message: 'is required' },
+    { field: 'lines[0]', message: 'must have a negative amount on a credit note' },
+    { field: 'totalPrice', message: 'must be negative on a credit note' },
+  ]);
+  // Discounts on returned lines are negative too.
+  const discounted = creditNote();
+  discounted.lines![0].discountAmount = 0.5;
+  expect(validateDocument(discounted)).toContainEqual({
+    field: 'lines[0].discountAmount',
+    message: 'must be between zero and the line amount',
+  });
+});
+
+test('describes documents for lists', () => {
+  expect(describeDocument(ticket())).toBe('Kitchen #7');
+  expect(describeDocument(creditNote())).toBe('Credit note 5/2024');
+  expect(describeDocument({ documentType: 'cashIn', amount: 20 })).toBe('Cash in 20');
+  expect(describeDocument({ invNumber: 3 })).toBe('Invoice 3');
+});
@@ -0,0 +1,156 @@
+import { Buffer } from 'buffer';
+import {
+  barcodeDataError,
+  cutPaper,
+  pdf417ByteCapacity,
+  printQRCode,
+  symbolCapacityError,
+  textStyle,
+} from '../escpos-commands';
+import { createEscPosDocument } from '../escposBuilder';
+
+const bytes = (...values: number[]) => Uint8Array.from(values);
+
+test('init resets the printer and selects the code page', () => {
+  expect(createEscPosDocument({ codePage: 'cp1250' }).init().build()).toEqual(bytes(0x1b, 0x40, 0x1b, 0x74, 45));
+  expect(createEscPosDocument().codePage('cp852').build()).toEqual(bytes(0x1b, 0x74, 18));
+});
+
+test('emits style commands only when the style changes', () => {
+  const doc = createEscPosDocument().align('center').align('center').bold(true).bold(true).underline(2).size(2, 3);
+  expect(doc.build()).toEqual(bytes(0x1b, 0x61, 1, 0x1b, 0x45, 1, 0x1b, 0x2d, 2, 0x1d, 0x21, 0x12));
+  expect(doc.style).toEqual({
+    align: 'center',
+    bold: true,
+    underline: 2,
+    inverse: false,
+    font: 'A',
+    upsideDown: false,
+    width: 2,
+    height: 3,
+  });
+});
+
+test('resetStyle turns styles off without ESC @', () => {
+  const doc = createEscPosDocument().bold(true).underline(true).inverse(true).font('B').upsideDown(true).size(2);
+  doc.align('right');
+  const before = doc.build().length;
+  const reset = doc.resetStyle().build().slice(before);
+  expect(reset).toEqual(
+    bytes(0x1b, 0x45, 0, 0x1b, 0x2d, 0, 0x1d, 0x42, 0, 0x1b, 0x4d, 0, 0x1b, 0x7b, 0, 0x1d, 0x21, 0x00, 0x1b, 0x61, 0),
+  );
+  expect(createEscPosDocument().resetStyle().build()).toEqual(bytes());
+});
+
+test('composes text styles from single commands', () => {
+  expect(textStyle({ bold: false, underline: 2, inverse: true, font: 'B', upsideDown: true, width: 3 })).toBe(
+    '\x1BE\x00' + '\x1B-\x02' + '\x1DB\x01' + '\x1BM\x01' + '\x1B{\x01' + '\x1D!\x20',
+  );
+  expect(textStyle({ height: 2 })).toBe('\x1D!\x01');
+  expect(textStyle({})).toBe('');
+});
+
+test('encodes text for the current code page', () => {
+  expect(createEscPosDocument({ codePage: 'cp858' }).text('ë').line('€').build()).toEqual(bytes(0x89, 0xd5, 0x0a));
+  expect(createEscPosDocument({ codePage: 'cp437' }).line('€').build()).toEqual(bytes(0x45, 0x55, 0x52, 0x0a));
+});
+
+test('feeds, cuts and raw bytes', () => {
+  expect(createEscPosDocument().feed(4).cut().cut(true).raw('\x1b\x70').raw([0, 25]).build()).toEqual(
+    bytes(0x1b, 0x64, 4, 0x1d, 0x56, 0, 0x1d, 0x56, 1, 0x1b, 0x70, 0, 25),
+  );
+});
+
+test('cuts with a feed and kicks the cash drawer', () => {
+  expect(Buffer.from(cutPaper('partial', 24), 'latin1')).toEqual(Buffer.from([0x1d, 0x56, 66, 24]));
+  expect(createEscPosDocument().cut(false, 24).cut(true, 300).build()).toEqual(
+    bytes(0x1d, 0x56, 65, 24, 0x1d, 0x56, 66, 255),
+  );
+  expect(Buffer.from(cutPaper('full', 999), 'latin1')).toEqual(Buffer.from([0x1d, 0x56, 65, 255]));
+  expect(createEscPosDocument().drawer().drawer({ pin: 5, onTime: 50, offTime: 1000 }).build()).toEqual(
+    bytes(0x1b, 0x70, 0, 50, 100, 0x1b, 0x70, 1, 25, 255),
+  );
+});
+
+test('barcodes set height, width and text position before GS k', () => {
+  const code128 = createEscPosDocument().barcode('CODE128', 'A{1', { height: 60, width: 3, text: 'none' }).build();
+  expect(code128).toEqual(
+    bytes(0x1d, 0x68, 60, 0x1d, 0x77, 3, 0x1d, 0x48, 0, 0x1d, 0x6b, 73, 6, 0x7b, 0x42, 0x41, 0x7b, 0x7b, 0x31),
+  );
+  const ean = createEscPosDocument().barcode('EAN13', '4006381333931').build();
+  expect(Buffer.from(ean.slice(9)).toString('latin1')).toBe('\x1dk\x43\x0c400638133393');
+  expect(() => createEscPosDocument().barcode('CODE39', 'abc')).toThrow('CODE39');
+});
+
+test('checks barcode data per symbology', () => {
+  expect(barcodeDataError('EAN13', '400638133393')).toBeNull();
+  expect(barcodeDataError('EAN13', '4006381333932')).toBe('EAN-13 check digit is wrong');
+  expect(barcodeDataError('EAN13', '40063813339')).toBe('EAN-13 needs 12 or 13 digits');
+  expect(barcodeDataError('CODE39', 'INV-15 $')).toBeNull();
+  expect(barcodeDataError('CODE128', 'inv/15')).toBeNull();
+  expect(barcodeDataError('CODE128', 'fatë')).not.toBeNull();
+  expect(barcodeDataError('CODE128', 'x'.repeat(254))).not.toBeNull();
+});
+
+test('qr stores UTF-8 data with size and error correction', () => {
+  const out = Array.from(createEscPosDocument().qr('ë', { size: 6, errorCorrection: 'Q' }).build());
+  expect(out).toEqual([
+    0x1d, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 6,
+    0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 50,
+    0x1d, 0x28, 0x6b, 5, 0x00, 0x31, 0x50, 0x30, 0xc3, 0xab,
+    0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ]);
+});
+
+test('pdf417 and dataMatrix set up their symbol before storing the data', () => {
+  const store = (cn: number, data: string) => [
+    ...[0x1d, 0x28, 0x6b, data.length + 3, 0, cn, 0x50, 0x30],
+    ...Buffer.from(data),
+  ];
+  const print = (cn: number) => [0x1d, 0x28, 0x6b, 3, 0, cn, 0x51, 0x30];
+  expect(createEscPosDocument().pdf417('DN-7', { moduleWidth: 2, errorLevel: 4 }).build()).toEqual(
+    bytes(
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x41, 0],
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x42, 0],
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x43, 2],
+      // Row height is a multiple of the module width.
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x44, 3],
+      ...[0x1d, 0x28, 0x6b, 4, 0, 0x30, 0x45, 0x30, 0x34],
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x46, 0],
+      ...store(0x30, 'DN-7'),
+      ...print(0x30),
+    ),
+  );
+  const tall = Array.from(createEscPosDocument().pdf417('DN-7', { rowHeight: 12 }).build());
+  expect(tall.slice(24, 32)).toEqual([0x1d, 0x28, 0x6b, 3, 0, 0x30, 0x44, 8]);
+  expect(createEscPosDocument().dataMatrix('A1', { size: 6 }).build()).toEqual(
+    bytes(
+      ...[0x1d, 0x28, 0x6b, 5, 0, 0x36, 0x42, 0, 0, 0],
+      ...[0x1d, 0x28, 0x6b, 3, 0, 0x36, 0x43, 6],
+      ...store(0x36, 'A1'),
+      ...print(0x36),
+    ),
+  );
+});
+
+test('2D codes refuse data beyond their capacity', () => {
+  expect(pdf417ByteCapacity(0)).toBe(1108);
+  expect(symbolCapacityError('QR', 2331, { errorCorrection: 'M' })).toBeNull();
+  expect(symbolCapacityError('QR', 2332, { errorCorrection: 'M' })).toBe('QR holds at most 2331 bytes, got 2332');
+  expect(symbolCapacityError('DataMatrix', 1557)).not.toBeNull();
+  expect(() => createEscPosDocument().qr('x'.repeat(1300), { errorCorrection: 'H' })).toThrow('QR holds at most 1273');
+  expect(() => createEscPosDocument().pdf417('x'.repeat(500), { errorLevel: 8 })).toThrow('PDF417');
+  expect(printQRCode('hi', 4, 'Q')).toContain('\x1D\x28\x6B\x03\x00\x31\x45\x32');
+});
+
+test('raster and bit images pack pixels MSB first', () => {
+  const bitmap = { width: 9, height: 1, data: Uint8Array.from([1, 0, 0, 0, 0, 0, 0, 0, 1]) };
+  expect(createEscPosDocument().raster(bitmap).build()).toEqual(
+    bytes(0x1d, 0x76, 0x30, 0x00, 2, 0, 1, 0, 0x80, 0x80),
+  );
+  const column = { width: 1, height: 2, data: Uint8Array.from([1, 1]) };
+  expect(createEscPosDocument().bitImage(column).build()).toEqual(
+    bytes(0x1b, 0x33, 24, 0x1b, 0x2a, 0x21, 1, 0, 0xc0, 0, 0, 0x0a, 0x1b, 0x32),
+  );
+});
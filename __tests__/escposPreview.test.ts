@@ -0,0 +1,71 @@
+import { Buffer } from 'buffer';
+import { interpretEscPos, renderPreviewHtml, renderPreviewText } from '../escposPreview';
+import { formatInvoice } from '../InvoiceFormatter';
+import { printRasterImage } from '../escpos-commands';
+
+test('tracks alignment, bold and size per line', () => {
+  const preview = interpretEscPos('\x1B\x61\x01\x1B\x45\x01\x1D\x21\x11Title\n\x1B\x40left\n', { width: 20 });
+  const [title, left] = preview.blocks;
+  expect(title).toEqual({
+    type: 'text',
+    align: 'center',
+    segments: [
+      {
+        text: 'Title',
+        style: { bold: true, underline: 0, inverse: false, font: 'A', width: 2, height: 2, upsideDown: false },
+      },
+    ],
+  });
+  expect(left.type === 'text' && left.align).toBe('left');
+  expect(renderPreviewText(preview)).toBe('     Title\nleft');
+});
+
+test('applies ESC d feeds and wraps long lines', () => {
+  const preview = interpretEscPos('abcdef\x1Bd\x02', { width: 4 });
+  expect(renderPreviewText(preview)).toBe('abcd\nef\n');
+});
+
+test('decodes text with the selected code page', () => {
+  const preview = interpretEscPos('\x1B\x74\x13\x89\x87\n', { width: 10 });
+  expect(renderPreviewText(preview)).toBe('ëç');
+});
+
+test('recognizes QR codes, raster images, cuts and drawer kicks', () => {
+  const bitmap = { width: 8, height: 1, data: new Uint8Array([1, 0, 0, 0, 0, 0, 0, 1]) };
+  const commands =
+    Buffer.from(formatInvoice({ qrCode: 'https://x.al/q' })).toString('latin1') +
+    printRasterImage(bitmap) +
+    '\x1D\x56\x01' +
+    '\x1B\x70\x00\x19\xFA';
+  const preview = interpretEscPos(commands);
+  const kinds = preview.blocks.filter(b => b.type !== 'text');
+  expect(kinds).toEqual([
+    { type: 'code', align: 'center', symbology: 'QR', data: 'https://x.al/q' },
+    { type: 'image', align: 'center', bitmap },
+    { type: 'cut', partial: true },
+    { type: 'drawer', pin: 2 },
+  ]);
+});
+
+test('tells full cuts from partial ones for every GS V form', () => {
+  const cut = (command: string) => interpretEscPos(command + 'after\n').blocks;
+  expect(cut('\x1D\x56\x00')[0]).toEqual({ type: 'cut', partial: false });
+  expect(cut('\x1D\x56\x01')[0]).toEqual({ type: 'cut', partial: true });
+  expect(cut('\x1D\x56\x30')[0]).toEqual({ type: 'cut', partial: false });
+  expect(cut('\x1D\x56\x31')[0]).toEqual({ type: 'cut', partial: true });
+  // The feed forms carry one more byte, which is not printed.
+  expect(cut('\x1D\x56\x41\x03')).toEqual([{ type: 'cut', partial: false }, expect.objectContaining({ type: 'text' })]);
+  expect(cut('\x1D\x56\x42\x03')).toEqual([{ type: 'cut', partial: true }, expect.objectContaining({ type: 'text' })]);
+  expect(renderPreviewText(interpretEscPos('\x1D\x56\x42\x03after\n', { width: 10 }))).toBe('- - - - -\nafter');
+});
+
+test('previews a formatted invoice as text and HTML', () => {
+  const commands = formatInvoice({ header: 'Dyqani', invoiceType: 'Fature', invNumber: 5, totalPrice: 10 }, 32);
+  const preview = interpretEscPos(commands, { width: 32 });
+  const text = renderPreviewText(preview);
+  expect(text).toContain('Nr. Fatures: 5');
+  expect(text.split('\n')[0]).toBe('             Dyqani');
+  const html = renderPreviewHtml(preview);
+  expect(html).toContain('font-weight:bold');
+  expect(html).toContain('text-align:center');
+});
@@ -0,0 +1,13 @@
+import { QueueStorage } from '../../printQueue';
+
+// In-memory stand-in for AsyncStorage; data exposes what was saved.
+export const createMemoryStorage = (): QueueStorage & { data: Record<string, string> } => {
+  const data: Record<string, string> = {};
+  return {
+    data,
+    getItem: async (key: string) => data[key] ?? null,
+    setItem: async (key: string, value: string) => {
+      data[key] = value;
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import { Buffer } from 'buffer';
+import { createRequestParser, createRouter, handleHttpConnection, HttpSocket, serializeResponse } from '../httpServer';
+
+const post = (path: string, body: string, extra: string = '') =>
+  `POST ${path} HTTP/1.1\r\nHost: localhost\r\nContent-Length: ${Buffer.byteLength(body)}\r\n${extra}\r\n${body}`;
+
+const parseError = (input: string): number => createRequestParser().push(input).error?.status ?? 0;
+
+test('buffers a request split across packets until the body is complete', () => {
+  const parser = createRequestParser();
+  const raw = post('/print', '{"invNumber":12}');
+  expect(parser.push(raw.slice(0, 20))).toEqual({ requests: [], error: null });
+  expect(parser.push(raw.slice(20, raw.length - 3))).toEqual({ requests: [], error: null });
+  const [req] = parser.push(raw.slice(raw.length - 3)).requests;
+  expect(req.method).toBe('POST');
+  expect(req.path).toBe('/print');
+  expect(req.headers.host).toBe('localhost');
+  expect(req.body.toString('utf8')).toBe('{"invNumber":12}');
+  expect(req.keepAlive).toBe(true);
+});
+
+test('parses pipelined requests from one packet', () => {
+  const parser = createRequestParser();
+  const { requests } = parser.push(post('/print', 'a') + post('/ReturnToApp', '', 'Connection: close\r\n'));
+  expect(requests.map(r => r.path)).toEqual(['/print', '/ReturnToApp']);
+  expect(requests[1].keepAlive).toBe(false);
+});
+
+test('decodes chunked bodies', () => {
+  const parser = createRequestParser();
+  const raw =
+    'POST /print?copy=1 HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n' +
+    '4\r\nWiki\r\n5;ext=1\r\npedia\r\n0\r\nX-Trailer: y\r\n\r\n';
+  const [req] = parser.push(raw).requests;
+  expect(req.body.toString('utf8')).toBe('Wikipedia');
+  expect(req.query).toEqual({ copy: '1' });
+});
+
+test('rejects malformed requests with the right status', () => {
+  expect(parseError('GARBAGE\r\n\r\n')).toBe(400);
+  expect(parseError('GET / HTTP/2.0\r\nHost: x\r\n\r\n')).toBe(505);
+  expect(parseError('GET / HTTP/1.1\r\n\r\n')).toBe(400);
+  expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: abc\r\n\r\n')).toBe(400);
+  expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: gzip\r\n\r\n')).toBe(501);
+  expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 99999999\r\n\r\n')).toBe(413);
+  expect(parseError('GET / HTTP/1.1\r\nX: ' + 'a'.repeat(20000))).toBe(431);
+});
+
+test('returns the requests completed before a malformed one with the error', () => {
+  const parser = createRequestParser();
+  const { requests, error } = parser.push(post('/print', 'a') + 'GARBAGE\r\n\r\n');
+  expect(requests.map(r => r.path)).toEqual(['/print']);
+  expect(error?.status).toBe(400);
+  expect(parser.push(post('/print', 'b'))).toEqual({ requests: [], error });
+});
+
+test('serializes responses with length and connection headers', () => {
+  const text = serializeResponse({ status: 202, body: 'ok' }, false).toString('utf8');
+  expect(text).toBe('HTTP/1.1 202 Accepted\r\nContent-Length: 2\r\nConnection: close\r\n\r\nok');
+});
+
+test('routes by method and path', async () => {
+  const router = createRouter({ defaultHeaders: { 'Access-Control-Allow-Origin': '*' } });
+  router.add('POST', '/jobs/:id/reprint', req => ({ status: 200, body: req.params.id }));
+  const base = {
+    query: {},
+    target: '',
+    version: 'HTTP/1.1',
+    headers: {},
+    body: Buffer.alloc(0),
+    keepAlive: true,
+    params: {},
+  };
+
+  const ok = await router.handle({ ...base, method: 'POST', path: '/jobs/abc/reprint' });
+  expect(ok.body).toBe('abc');
+  expect(ok.headers!['Access-Control-Allow-Origin']).toBe('*');
+  expect((await router.handle({ ...base, method: 'GET', path: '/jobs/abc/reprint' })).status).toBe(405);
+  expect((await router.handle({ ...base, method: 'OPTIONS', path: '/jobs/abc/reprint' })).status).toBe(204);
+  expect((await router.handle({ ...base, method: 'POST', path: '/unknown' })).status).toBe(404);
+});
+
+test('answers pipelined requests in order and closes when asked', async () => {
+  const listeners: Record<string, (data?: any) => void> = {};
+  const written: string[] = [];
+  let ended = false;
+  const socket: HttpSocket = {
+    on: (event: string, listener: (data?: any) => void) => {
+      listeners[event] = listener;
+    },
+    write: (data: Buffer | string) => {
+      written.push(data.toString());
+    },
+    end: () => {
+      ended = true;
+    },
+  };
+  const router = createRouter();
+  router.add('POST', '/slow', () => new Promise(resolve => setTimeout(() => resolve({ status: 200, body: 'slow' }), 10)));
+  router.add('POST', '/fast', () => ({ status: 200, body: 'fast' }));
+  handleHttpConnection(socket, router);
+
+  listeners.data(post('/slow', '') + post('/fast', '', 'Connection: close\r\n'));
+  await new Promise(resolve => setTimeout(resolve, 30));
+  expect(written.map(w => w.split('\r\n\r\n')[1])).toEqual(['slow', 'fast']);
+  expect(ended).toBe(true);
+});
+
+test('answers requests received before a malformed one, then rejects it and closes', async () => {
+  const listeners: Record<string, (data?: any) => void> = {};
+  const written: string[] = [];
+  let ended = false;
+  const socket: HttpSocket = {
+    on: (event: string, listener: (data?: any) => void) => {
+      listeners[event] = listener;
+    },
+    write: (data: Buffer | string) => {
+      written.push(data.toString());
+    },
+    end: () => {
+      ended = true;
+    },
+  };
+  const router = createRouter();
+  router.add('POST', '/print', () => ({ status: 200, body: 'printed' }));
+  handleHttpConnection(socket, router);
+
+  listeners.data(post('/print', '') + 'GARBAGE\r\n\r\n');
+  await new Promise(resolve => setTimeout(resolve, 10));
+  expect(written.map(w => w.split('\r\n')[0])).toEqual(['HTTP/1.1 200 OK', 'HTTP/1.1 400 Bad Request']);
+  expect(written[0].split('\r\n\r\n')[1]).toBe('printed');
+  expect(ended).toBe(true);
+});
+
+test('adds the default headers for the connection to parse errors', async () => {
+  const written = (input: string) => {
+    const listeners: Record<string, (data?: any) => void> = {};
+    const output: string[] = [];
+    const socket: HttpSocket = {
+      on: (event: string, listener: (data?: any) => void) => {
+        listeners[event] = listener;
+      },
+      write: (data: Buffer | string) => {
+        output.push(data.toString());
+      },
+      end: () => {},
+    };
+    const router = createRouter({ defaultHeaders: req => ({ 'Access-Control-Allow-Origin': req.headers.origin ?? '' }) });
+    router.add('POST', '/print', () => ({ status: 200 }));
+    handleHttpConnection(socket, router, { maxBodySize: 10 });
+    listeners.data(input);
+    return new Promise<string[]>(resolve => setTimeout(() => resolve(output), 10));
+  };
+
+  const origin = 'Origin: https://shop.example.com\r\n';
+  const [tooLarge] = await written(post('/print', 'x'.repeat(20), origin));
+  expect(tooLarge).toMatch(/^HTTP\/1.1 413 /);
+  expect(tooLarge).toContain('Access-Control-Allow-Origin: https://shop.example.com');
+
+  const [, malformed] = await written(post('/print', '', origin) + 'GARBAGE\r\n\r\n');
+  expect(malformed).toMatch(/^HTTP\/1.1 400 /);
+  expect(malformed).toContain('Access-Control-Allow-Origin: https://shop.example.com');
+});
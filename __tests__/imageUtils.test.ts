@@ -0,0 +1,68 @@
+import { Buffer } from 'buffer';
+import jpeg from 'jpeg-js';
+import { ditherImage, decodeImage, imageToBitmap, imageToEscPos, scaleImage } from '../imageUtils';
+import { printBitImage, printRasterImage } from '../escpos-commands';
+import { generateQRCodeDataUrl } from '../qrImage';
+
+const gray = (width: number, height: number, value: number) => ({
+  width,
+  height,
+  data: new Uint8Array(width * height).fill(value),
+});
+
+test('decodes PNG and JPEG data URLs to grayscale', async () => {
+  const png = decodeImage(await generateQRCodeDataUrl('hello', 64));
+  expect(png.width).toBe(64);
+  expect(png.data[0]).toBe(255);
+
+  const rgba = Buffer.alloc(4 * 4 * 4, 0);
+  const encoded = jpeg.encode({ width: 4, height: 4, data: rgba }, 90);
+  const jpg = decodeImage('data:image/jpeg;base64,' + Buffer.from(encoded.data).toString('base64'));
+  expect(jpg.width).toBe(4);
+  expect(jpg.data[0]).toBeLessThan(10);
+
+  expect(() => decodeImage('data:image/gif;base64,R0lGOD')).toThrow('Unsupported image format');
+});
+
+test('scales to the requested width keeping the aspect ratio', () => {
+  const scaled = scaleImage(gray(800, 400, 0), 384);
+  expect(scaled.width).toBe(384);
+  expect(scaled.height).toBe(192);
+  expect(scaled.data[0]).toBe(0);
+});
+
+test('dithers mid gray to roughly half the dots', () => {
+  const image = gray(32, 32, 128);
+  const count = (mode: 'threshold' | 'floyd-steinberg' | 'atkinson') =>
+    ditherImage(image, mode).data.reduce((sum, v) => sum + v, 0);
+  expect(count('threshold')).toBe(0);
+  expect(Math.abs(count('floyd-steinberg') - 512)).toBeLessThan(40);
+  expect(count('atkinson')).toBeGreaterThan(300);
+});
+
+test('emits GS v 0 raster bands', () => {
+  const bitmap = { width: 10, height: 3, data: new Uint8Array(30) };
+  bitmap.data[0] = 1;
+  bitmap.data[9] = 1;
+  const commands = printRasterImage(bitmap, 2);
+  expect(commands).toBe(
+    '\x1B\x61\x01' +
+      '\x1D\x76\x30\x00\x02\x00\x02\x00' + '\x80\x40' + '\x00\x00' +
+      '\x1D\x76\x30\x00\x02\x00\x01\x00' + '\x00\x00' +
+      '\x1B\x61\x00',
+  );
+});
+
+test('emits ESC * 24-dot bands', () => {
+  const bitmap = { width: 2, height: 1, data: new Uint8Array([1, 0]) };
+  expect(printBitImage(bitmap)).toBe(
+    '\x1B\x61\x01\x1B\x33\x18' + '\x1B\x2A\x21\x02\x00' + '\x80\x00\x00\x00\x00\x00' + '\n' + '\x1B\x32\x1B\x61\x00',
+  );
+});
+
+test('fits images to the printer dot width', async () => {
+  const dataUrl = await generateQRCodeDataUrl('logo', 512);
+  expect(imageToBitmap(dataUrl, { dotWidth: 384 }).width).toBe(384);
+  const commands = Buffer.from(imageToEscPos(dataUrl, { dotWidth: 384, dither: 'threshold' })).toString('latin1');
+  expect(commands).toContain('\x1D\x76\x30\x00\x30\x00');
+});
@@ -0,0 +1,109 @@
+import { validateInvoice } from '../invoiceValidator';
+
+const valid = () => ({
+  invNumber: 15,
+  tin: 'L12345678A',
+  buCode: 'BU01',
+  opCode: 'OP01',
+  Date: '2024-05-01',
+  lines: [
+    { productName: 'qumesht', quantity: 1, price: 2.5, fullPrice: 2.5, discountAmount: 0 },
+    { productName: 'vaj', quantity: 3, price: 1.1, fullPrice: 3.3, discountAmount: 0.3 },
+  ],
+  totalPriceNoVat: 5.5,
+  vat: [{ vatType: '20%', amount: 1.1 }],
+  totalDiscount: 0.3,
+  totalPrice: 6.6,
+  qrCode: 'https://x.al/q',
+  IIC: 'IIC',
+  FIC: 'FIC',
+});
+
+test('accepts a consistent invoice', () => {
+  expect(validateInvoice(valid())).toEqual([]);
+});
+
+test('reports types and required fields per field', () => {
+  const invoice: any = { ...valid(), tin: 5, qrCode: undefined, language: 'de', currency: 'euro' };
+  invoice.lines[1] = { quantity: '3', price: 1.1 };
+  expect(validateInvoice(invoice)).toEqual([
+    { field: 'tin', message: 'must be a string' },
+    { field: 'language', message: 'is not a supported language' },
+    { field: 'currency', message: 'must be a three-letter ISO 4217 code' },
+    { field: 'qrCode', message: 'is required' },
+    { field: 'lines[1].productName', message: 'is required' },
+    { field: 'lines[1].quantity', message: 'must be a number' },
+  ]);
+  expect(validateInvoice('nope')).toEqual([{ field: '', message: 'invoice must be a JSON object' }]);
+  expect(validateInvoice({ totalPrice: 1 })).toEqual([
+    { field: 'invNumber', message: 'is required' },
+    { field: 'lines', message: 'must list at least one line' },
+  ]);
+});
+
+test('reconciles line sums with the totals', () => {
+  const invoice = valid();
+  invoice.lines[0].fullPrice = 2.6;
+  invoice.totalDiscount = 0.5;
+  invoice.totalPrice = 7;
+  expect(validateInvoice(invoice)).toEqual([
+    { field: 'lines[0].fullPrice', message: 'does not match quantity x price (1 x 2.5)' },
+    { field: 'totalPriceNoVat', message: 'does not match the sum of the lines (5.60)' },
+    { field: 'totalDiscount', message: 'does not match the sum of the line discounts (0.30)' },
+    { field: 'totalPrice', message: 'does not match the amount without VAT plus VAT (6.60)' },
+  ]);
+});
+
+test('accepts differences within the tolerance', () => {
+  const invoice = { ...valid(), totalPrice: 6.62 };
+  expect(validateInvoice(invoice)).toHaveLength(1);
+  expect(validateInvoice(invoice, { tolerance: 0.05 })).toEqual([]);
+});
+
+test('limits copies to a small whole number', () => {
+  expect(validateInvoice({ ...valid(), copies: 2, copyLabel: 'KOPJE' })).toEqual([]);
+  expect(validateInvoice({ ...valid(), copies: 0, copyLabel: 1 })).toEqual([
+    { field: 'copyLabel', message: 'must be a string' },
+    { field: 'copies', message: 'must be a whole number from 1 to 10' },
+  ]);
+  expect(validateInvoice({ ...valid(), copies: 1.5 })).toEqual([
+    { field: 'copies', message: 'must be a whole number from 1 to 10' },
+  ]);
+});
+
+test('requires the print options to be booleans', () => {
+  expect(validateInvoice({ ...valid(), copy: true, cut: false, openDrawer: true })).toEqual([]);
+  expect(validateInvoice({ ...valid(), cut: 'no', openDrawer: 1 })).toEqual([
+    { field: 'cut', message: 'must be true or false' },
+    { field: 'openDrawer', message: 'must be true or false' },
+  ]);
+});
+
+test('checks barcodes against their symbology', () => {
+  const { lines } = valid();
+  const withCodes = { ...valid(), lines: [{ ...lines[0], ean: '4006381333931' }, lines[1]] };
+  expect(validateInvoice({ ...withCodes, barcode: 'INV-15', barcodeType: 'CODE39', barcodePosition: 'top' })).toEqual([]);
+  expect(validateInvoice({ ...withCodes, barcode: 'inv-15', barcodeType: 'CODE39' })).toEqual([
+    { field: 'barcode', message: 'CODE39 takes 1-255 characters of 0-9, A-Z, space and - . $ / + %' },
+  ]);
+  expect(validateInvoice({ ...valid(), barcodeType: 'UPC', barcodePosition: 'side' })).toEqual([
+    { field: 'barcodeType', message: 'must be one of CODE128, EAN13, CODE39' },
+    { field: 'barcodePosition', message: 'must be one of top, beforeQr, bottom' },
+  ]);
+  expect(validateInvoice({ ...valid(), lines: [lines[0], { ...lines[1], ean: '123' }] })).toEqual([{ field: 'lines[1].ean', message: 'EAN-13 needs 12 or 13 digits' }]);
+});
+
+test('checks 2D code settings and capacity', () => {
+  const codes = { qrErrorCorrection: 'Q', pdf417: 'DN-7', pdf417Size: 3, pdf417ErrorLevel: 2, dataMatrix: 'A1' };
+  expect(validateInvoice({ ...valid(), ...codes })).toEqual([]);
+  expect(validateInvoice({ ...valid(), qrErrorCorrection: 'X', pdf417Size: 9, dataMatrixSize: 1.5 })).toEqual([
+    { field: 'pdf417Size', message: 'must be a whole number from 2 to 8' },
+    { field: 'dataMatrixSize', message: 'must be a whole number from 2 to 16' },
+    { field: 'qrErrorCorrection', message: 'must be one of L, M, Q, H' },
+  ]);
+  const tooLong = { qrCode: 'ë'.repeat(700), qrErrorCorrection: 'H', pdf417: 'x'.repeat(600), pdf417ErrorLevel: 8 };
+  expect(validateInvoice({ ...valid(), ...tooLong })).toEqual([
+    { field: 'qrCode', message: 'QR holds at most 1273 bytes, got 1400' },
+    { field: 'pdf417', message: 'PDF417 holds at most 496 bytes, got 600' },
+  ]);
+});
@@ -0,0 +1,43 @@
+import { convertMinorUnits, formatMoney, minorUnitsToString, toMinorUnits } from '../money';
+import { formatInvoice } from '../InvoiceFormatter';
+import { interpretEscPos, renderPreviewText } from '../escposPreview';
+
+test('rounds amounts exactly, half away from zero', () => {
+  expect(toMinorUnits(5.499999)).toBe(550n);
+  expect(toMinorUnits(1.005)).toBe(101n);
+  expect(toMinorUnits(0.1 + 0.2)).toBe(30n);
+  expect(toMinorUnits('-2.345')).toBe(-235n);
+  expect(toMinorUnits(1e21)).toBe(100000000000000000000000n);
+  expect(toMinorUnits(12, 0)).toBe(12n);
+  expect(() => toMinorUnits('abc')).toThrow('Invalid amount');
+  expect(minorUnitsToString(-5n)).toBe('-0.05');
+});
+
+test('converts with an exchange rate without float noise', () => {
+  expect(convertMinorUnits(toMinorUnits(19.99), 100.35)).toBe(200600n);
+  expect(convertMinorUnits(toMinorUnits('0.01'), '0.5')).toBe(1n);
+});
+
+test('formats with the language separators and currency symbol', () => {
+  expect(formatMoney(1234.5)).toBe('1\u00A0234,50L');
+  expect(formatMoney(1234.5, { currency: 'USD', language: 'en' })).toBe('$1,234.50');
+  expect(formatMoney(-1234567.891, { currency: 'EUR', language: 'it' })).toBe('-1.234.567,89€');
+  expect(formatMoney(5, { currency: 'CHF', language: 'en' })).toBe('5.00\u00A0CHF');
+  expect(formatMoney(5, { plain: true })).toBe('5,00');
+});
+
+test('prints foreign-currency totals in both currencies', () => {
+  const invoice = {
+    currency: 'EUR' as const,
+    Exrate: 100.35,
+    totalPriceNoVat: 16.659999,
+    vat: [{ vatType: '20%', amount: 3.33 }],
+    totalPrice: 19.99,
+  };
+  const text = renderPreviewText(interpretEscPos(formatInvoice(invoice, 32, { language: 'en' }), { width: 32 }));
+  expect(text).toContain('TOTAL EXCL. VAT           16.66€');
+  expect(text).toContain('VAT 20%                    3.33€');
+  expect(text).toContain('TOTAL EUR                 19.99€');
+  expect(text).toContain('TOTAL ALL              2,006.00L');
+  expect(text).toContain('Exchange rate: 1 EUR = 100.35');
+});
@@ -0,0 +1,50 @@
+import net from 'net';
+import { CreateConnection, parsePrinterAddress, writeToNetworkPrinter } from '../networkPrinter';
+
+const createConnection = net.createConnection as unknown as CreateConnection;
+
+// A stand-in for a RAW port printer that collects what it receives.
+const startPrinter = (onSocket?: (socket: net.Socket) => void) =>
+  new Promise<{ server: net.Server; port: number; received: Promise<Buffer> }>(resolve => {
+    let done: (data: Buffer) => void;
+    const received = new Promise<Buffer>(r => (done = r));
+    const server = net.createServer(socket => {
+      const chunks: Buffer[] = [];
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('end', () => done(Buffer.concat(chunks)));
+      onSocket?.(socket);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, received });
+    });
+  });
+
+test('parses printer addresses', () => {
+  expect(parsePrinterAddress('192.168.1.50')).toEqual({ host: '192.168.1.50', port: 9100 });
+  expect(parsePrinterAddress(' printer.local:9101 ')).toEqual({ host: 'printer.local', port: 9101 });
+  expect(parsePrinterAddress('host:99999')).toBeNull();
+  expect(parsePrinterAddress('')).toBeNull();
+});
+
+test('streams the bytes to the printer and closes the connection', async () => {
+  const { server, port, received } = await startPrinter();
+  const data = Uint8Array.from([0x1b, 0x40, 0x41, 0x0a, 0xff]);
+  await writeToNetworkPrinter({ host: '127.0.0.1', port }, data, { createConnection });
+  expect([...(await received)]).toEqual([...data]);
+  server.close();
+});
+
+test('rejects when the printer refuses the connection', async () => {
+  const { server, port } = await startPrinter();
+  await new Promise(resolve => server.close(resolve));
+  await expect(writeToNetworkPrinter({ host: '127.0.0.1', port }, [0x0a], { createConnection })).rejects.toThrow(
+    'ECONNREFUSED',
+  );
+});
+
+test('times out when the connection does not open', async () => {
+  const stalled: CreateConnection = () => ({ write: () => true, end: () => {}, destroy: () => {}, on: () => {} });
+  await expect(
+    writeToNetworkPrinter({ host: '10.255.255.1' }, [0x0a], { createConnection: stalled, connectTimeout: 20 }),
+  ).rejects.toThrow('Connect timeout');
+});
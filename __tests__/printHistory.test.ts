@@ -0,0 +1,65 @@
+import { Invoice } from '../InvoiceFormatter';
+import { createPrintHistory, PrintHistoryEntry, reprintOf } from '../printHistory';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const entry = (id: string, settledAt: number, overrides: Partial<PrintHistoryEntry> = {}): PrintHistoryEntry => ({
+  id,
+  invoice: { invNumber: id },
+  printer: null,
+  printerName: 'Counter',
+  createdAt: settledAt,
+  settledAt,
+  outcome: 'printed',
+  attempts: 1,
+  ...overrides,
+});
+
+test('keeps the newest entries first and persists them', async () => {
+  const storage = createMemoryStorage();
+  const history = createPrintHistory({ storage, now: () => 10 * DAY });
+  await history.load();
+  await history.record(entry('a', 10 * DAY - 2));
+  await history.record(entry('b', 10 * DAY - 1));
+  expect(history.getEntries().map(e => e.id)).toEqual(['b', 'a']);
+  expect((history.get('a')!.invoice as Invoice).invNumber).toBe('a');
+  expect(history.get('x')).toBeNull();
+
+  const restored = createPrintHistory({ storage, now: () => 10 * DAY });
+  await restored.load();
+  expect(restored.getEntries()).toEqual(history.getEntries());
+});
+
+test('replaces the entry of a job that printed after failing', async () => {
+  const history = createPrintHistory({ storage: createMemoryStorage() });
+  await history.record(entry('a', Date.now(), { outcome: 'failed', error: 'Print timeout' }));
+  await history.record(entry('b', Date.now()));
+  await history.record(entry('a', Date.now(), { attempts: 6 }));
+  expect(history.getEntries().map(e => [e.id, e.outcome])).toEqual([
+    ['a', 'printed'],
+    ['b', 'printed'],
+  ]);
+});
+
+test('drops entries beyond the retention limits', async () => {
+  const storage = createMemoryStorage();
+  storage.data.printHistory = JSON.stringify([entry('recent', 9 * DAY), entry('old', 1 * DAY)]);
+  const history = createPrintHistory({ storage, maxEntries: 2, maxAge: 5 * DAY, now: () => 10 * DAY });
+  await history.load();
+  expect(history.getEntries().map(e => e.id)).toEqual(['recent']);
+
+  await history.record(entry('x', 10 * DAY));
+  await history.record(entry('y', 10 * DAY));
+  expect(history.getEntries().map(e => e.id)).toEqual(['y', 'x']);
+  expect(JSON.parse(storage.data.printHistory).map((e: PrintHistoryEntry) => e.id)).toEqual(['y', 'x']);
+
+  await history.clear();
+  expect(history.getEntries()).toEqual([]);
+});
+
+test('reprints one marked copy without opening the cash drawer', () => {
+  const sale: Invoice = { invNumber: 7, copies: 3, openDrawer: true };
+  expect(reprintOf(sale)).toEqual({ invNumber: 7, copy: true, copies: 1, openDrawer: false });
+  expect(sale.openDrawer).toBe(true);
+});
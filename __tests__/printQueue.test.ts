@@ -0,0 +1,189 @@
+import { Invoice } from '../InvoiceFormatter';
+import { createPrintQueue, backoffDelay, PrintJob } from '../printQueue';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Jobs name their printer the way the app's print requests do.
+const forPrinter = (header: string, printer: string) => ({ header, printer }) as Invoice;
+const printerOf = (job: PrintJob) => (job.invoice as { printer?: string }).printer;
+
+test('prints jobs one at a time in arrival order', async () => {
+  const storage = createMemoryStorage();
+  const printed: Array<number | string | undefined> = [];
+  let active = 0;
+  const queue = createPrintQueue({
+    storage,
+    isReady: () => true,
+    print: async (job: PrintJob) => {
+      active += 1;
+      expect(active).toBe(1);
+      await flush();
+      printed.push((job.invoice as Invoice).invNumber);
+      active -= 1;
+    },
+  });
+  await queue.load();
+  await Promise.all([queue.enqueue({ invNumber: 1 }), queue.enqueue({ invNumber: 2 })]);
+  for (let i = 0; i < 10; i++) {
+    await flush();
+  }
+  expect(printed).toEqual([1, 2]);
+  expect(queue.getJobs()).toEqual([]);
+  expect(JSON.parse(storage.data.printQueue)).toEqual([]);
+});
+
+test('keeps a failed job and retries it after resume', async () => {
+  const storage = createMemoryStorage();
+  let ready = true;
+  let fail = true;
+  const queue = createPrintQueue({
+    storage,
+    baseDelay: 0,
+    isReady: () => ready,
+    print: async () => {
+      if (fail) {
+        ready = false;
+        throw new Error('Print timeout');
+      }
+    },
+  });
+  await queue.load();
+  await queue.enqueue({ invNumber: 7 });
+  await flush();
+  const [job] = queue.getJobs();
+  expect(job.status).toBe('pending');
+  expect(job.attempts).toBe(1);
+  expect(job.lastError).toBe('Print timeout');
+  expect(JSON.parse(storage.data.printQueue)).toHaveLength(1);
+
+  fail = false;
+  ready = true;
+  queue.resume();
+  await flush();
+  expect(queue.getJobs()).toEqual([]);
+});
+
+test('marks a job failed after maxAttempts and keeps it until discarded', async () => {
+  const storage = createMemoryStorage();
+  const queue = createPrintQueue({
+    storage,
+    baseDelay: 0,
+    maxAttempts: 2,
+    isReady: () => true,
+    print: async () => {
+      throw new Error('Printer offline');
+    },
+  });
+  await queue.load();
+  await queue.enqueue({ invNumber: 3 });
+  for (let i = 0; i < 5; i++) {
+    await flush();
+  }
+  const [job] = queue.getJobs();
+  expect(job.status).toBe('failed');
+  expect(job.attempts).toBe(2);
+
+  await queue.discard(job.id);
+  expect(queue.getJobs()).toEqual([]);
+});
+
+test('restores saved jobs on load', async () => {
+  const storage = createMemoryStorage();
+  const saved: PrintJob = {
+    id: 'saved',
+    invoice: { invNumber: 9 },
+    status: 'failed',
+    attempts: 5,
+    createdAt: 0,
+    nextAttemptAt: 0,
+  };
+  storage.data.printQueue = JSON.stringify([saved]);
+  const queue = createPrintQueue({ storage, isReady: () => false, print: async () => {} });
+  await queue.load();
+  expect(queue.getJobs()).toEqual([saved]);
+});
+
+test('backoff doubles per attempt up to the maximum', () => {
+  expect(backoffDelay(1, 1000, 5000)).toBe(1000);
+  expect(backoffDelay(2, 1000, 5000)).toBe(2000);
+  expect(backoffDelay(3, 1000, 5000)).toBe(4000);
+  expect(backoffDelay(4, 1000, 5000)).toBe(5000);
+});
+
+test('holds only jobs whose printer is not ready', async () => {
+  const printed: string[] = [];
+  const queue = createPrintQueue({
+    storage: createMemoryStorage(),
+    isReady: (job: PrintJob) => printerOf(job) !== 'kitchen',
+    targetOf: printerOf,
+    print: async (job: PrintJob) => {
+      printed.push((job.invoice as Invoice).header ?? '');
+    },
+  });
+  await queue.enqueue(forPrinter('first', 'counter'));
+  await queue.enqueue(forPrinter('blocked', 'kitchen'));
+  await queue.enqueue(forPrinter('last', 'counter'));
+  await queue.enqueue(forPrinter('behind', 'kitchen'));
+  for (let i = 0; i < 5; i++) {
+    await flush();
+  }
+  expect(printed).toEqual(['first', 'last']);
+  expect(queue.getJobs().map(j => (j.invoice as Invoice).header)).toEqual(['blocked', 'behind']);
+});
+
+test('keeps printing other printers while one backs off', async () => {
+  const printed: string[] = [];
+  let failures = 1;
+  const queue = createPrintQueue({
+    storage: createMemoryStorage(),
+    baseDelay: 20,
+    isReady: () => true,
+    targetOf: printerOf,
+    print: async (job: PrintJob) => {
+      const { header } = job.invoice as Invoice;
+      if (printerOf(job) === 'kitchen' && failures-- > 0) {
+        throw new Error('Print timeout');
+      }
+      printed.push(header ?? '');
+    },
+  });
+  await queue.enqueue(forPrinter('soup', 'kitchen'));
+  await queue.enqueue(forPrinter('salad', 'kitchen'));
+  await queue.enqueue(forPrinter('receipt', 'counter'));
+  for (let i = 0; i < 5; i++) {
+    await flush();
+  }
+  expect(printed).toEqual(['receipt']);
+  await new Promise(resolve => setTimeout(resolve, 40));
+  for (let i = 0; i < 5; i++) {
+    await flush();
+  }
+  expect(printed).toEqual(['receipt', 'soup', 'salad']);
+});
+
+test('reports jobs that printed or were given up on', async () => {
+  const settled: Array<[string | number | undefined, string, number]> = [];
+  const queue = createPrintQueue({
+    storage: createMemoryStorage(),
+    baseDelay: 0,
+    maxAttempts: 2,
+    isReady: () => true,
+    print: async (job: PrintJob) => {
+      if ((job.invoice as Invoice).invNumber === 2) {
+        throw new Error('Print timeout');
+      }
+    },
+    onSettled: (job, outcome) => settled.push([(job.invoice as Invoice).invNumber, outcome, job.attempts]),
+  });
+  await queue.enqueue({ invNumber: 1 });
+  await queue.enqueue({ invNumber: 2 });
+  for (let i = 0; i < 10; i++) {
+    await flush();
+  }
+  await new Promise(resolve => setTimeout(resolve, 5));
+  expect(settled).toEqual([
+    [1, 'printed', 1],
+    [2, 'failed', 2],
+  ]);
+});
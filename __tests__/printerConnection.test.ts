@@ -0,0 +1,136 @@
+import { Buffer } from 'buffer';
+import { BleApi, ClassicApi, createBleConnection, createSppConnection } from '../printerConnection';
+
+const fakeBle = (characteristics: any[], mtu = 185) => {
+  const writes: number[][] = [];
+  const ble: BleApi = {
+    connect: jest.fn(async () => {}),
+    retrieveServices: jest.fn(async () => ({ characteristics })),
+    requestMTU: jest.fn(async () => mtu),
+    write: jest.fn(async (_id, _service, _char, data) => {
+      writes.push(data);
+    }),
+    writeWithoutResponse: jest.fn(async () => {}),
+    disconnect: jest.fn(async () => {}),
+  };
+  return { ble, writes };
+};
+
+const fakeClassic = (written = true) => {
+  const messages: string[] = [];
+  const classic: ClassicApi = {
+    connectToDevice: jest.fn(async () => ({})),
+    writeToDevice: jest.fn(async (_address, message) => {
+      messages.push(message);
+      return written;
+    }),
+    disconnectFromDevice: jest.fn(async () => true),
+  };
+  return { classic, messages };
+};
+
+test('BLE connection picks the writable characteristic and writes in MTU-sized chunks', async () => {
+  const { ble, writes } = fakeBle([
+    { service: 's1', characteristic: 'c1', properties: { Notify: 'Notify' } },
+    { service: 's1', characteristic: 'c2', properties: ['Write'] },
+  ], 23);
+  const connection = createBleConnection('dev', { ble, negotiateMtu: true, discoveryDelay: 0 });
+  expect(connection.status()).toBe('disconnected');
+
+  await connection.connect();
+  expect(connection.status()).toBe('connected');
+  expect(connection.candidate()).toEqual({
+    service: 's1',
+    characteristic: 'c2',
+    withResponse: true,
+    mtu: 23,
+    notify: { service: 's1', characteristic: 'c1' },
+  });
+
+  const data = Array.from({ length: 45 }, (_, i) => i);
+  await connection.write(data);
+  expect(writes.map(chunk => chunk.length)).toEqual([20, 20, 5]);
+  expect(writes.flat()).toEqual(data);
+
+  await connection.disconnect();
+  expect(connection.status()).toBe('disconnected');
+  expect(connection.candidate()).toBeNull();
+  expect(ble.disconnect).toHaveBeenCalledWith('dev');
+});
+
+test('BLE connection fails and disconnects when nothing is writable', async () => {
+  const { ble } = fakeBle([{ service: 's1', characteristic: 'c1', properties: ['Read'] }]);
+  const connection = createBleConnection('dev', { ble, discoveryDelay: 0 });
+  await expect(connection.connect()).rejects.toThrow('does not support writable characteristics');
+  expect(connection.status()).toBe('disconnected');
+  expect(ble.disconnect).toHaveBeenCalledWith('dev');
+  expect(ble.requestMTU).not.toHaveBeenCalled();
+});
+
+test('BLE connection sends a write only after the one before it', async () => {
+  const { ble, writes } = fakeBle([{ service: 's1', characteristic: 'c1', properties: ['Write'] }], 23);
+  // Each chunk takes a moment, as on a real link.
+  (ble.write as jest.Mock).mockImplementation(async (_id, _service, _char, data) => {
+    await new Promise(resolve => setTimeout(resolve, 1));
+    writes.push(data);
+  });
+  const connection = createBleConnection('dev', { ble, discoveryDelay: 0 });
+  await connection.connect();
+
+  const job = Array.from({ length: 60 }, () => 0xaa);
+  const printing = connection.write(job);
+  // A status request sent mid-job waits for the job's last chunk.
+  const polling = connection.write([0x10, 0x04, 1]);
+  expect(connection.busy()).toBe(true);
+  await Promise.all([printing, polling]);
+  expect(writes.flat()).toEqual([...job, 0x10, 0x04, 1]);
+  expect(connection.busy()).toBe(false);
+});
+
+test('a failed write does not hold up the next one', async () => {
+  const { classic, messages } = fakeClassic();
+  (classic.writeToDevice as jest.Mock).mockResolvedValueOnce(false);
+  const connection = createSppConnection('00:11:22:33:44:55', classic);
+  await connection.connect();
+  const first = connection.write([0x01]);
+  const second = connection.write([0x02]);
+  await expect(first).rejects.toThrow('Write to printer failed');
+  await second;
+  expect([...Buffer.from(messages[0], 'base64')]).toEqual([0x02]);
+});
+
+test('refuses to write before connecting', async () => {
+  const { ble } = fakeBle([]);
+  await expect(createBleConnection('dev', { ble }).write([0x0a])).rejects.toThrow('Printer is not connected');
+  const { classic } = fakeClassic();
+  await expect(createSppConnection('00:11:22:33:44:55', classic).write([0x0a])).rejects.toThrow(
+    'Printer is not connected',
+  );
+});
+
+test('SPP connection sends the bytes base64-encoded', async () => {
+  const { classic, messages } = fakeClassic();
+  const connection = createSppConnection('00:11:22:33:44:55', classic);
+  await connection.connect();
+  expect(connection.transport).toBe('spp');
+  expect(connection.status()).toBe('connected');
+
+  const data = Uint8Array.from([0x1b, 0x40, 0x80, 0xff, 0x0a]);
+  await connection.write(data);
+  expect(classic.writeToDevice).toHaveBeenCalledWith('00:11:22:33:44:55', expect.any(String), 'base64');
+  expect([...Buffer.from(messages[0], 'base64')]).toEqual([...data]);
+
+  await connection.disconnect();
+  expect(classic.disconnectFromDevice).toHaveBeenCalledWith('00:11:22:33:44:55');
+});
+
+test('SPP connection reports failed connects and writes', async () => {
+  const { classic } = fakeClassic(false);
+  (classic.connectToDevice as jest.Mock).mockRejectedValueOnce(new Error('Not paired'));
+  const connection = createSppConnection('00:11:22:33:44:55', classic);
+  await expect(connection.connect()).rejects.toThrow('Not paired');
+  expect(connection.status()).toBe('disconnected');
+
+  await connection.connect();
+  await expect(connection.write([0x0a])).rejects.toThrow('Write to printer failed');
+});
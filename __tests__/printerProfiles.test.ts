@@ -0,0 +1,33 @@
+import { createPrinterProfileStore, PrinterProfile } from '../printerProfiles';
+import { createMemoryStorage } from './helpers/memoryStorage';
+
+const counter: PrinterProfile = { id: 'a', name: 'Counter', role: 'receipt', transport: 'ble', deviceId: 'AA', width: 48 };
+const kitchen: PrinterProfile = { id: 'b', name: 'Kitchen 1', role: 'kitchen', transport: 'ble', deviceId: 'BB', width: 32 };
+
+test('resolves targets by id, name or role and falls back to the default', async () => {
+  const store = createPrinterProfileStore({ storage: createMemoryStorage() });
+  expect(store.resolve()).toBeNull();
+  await store.save(counter);
+  await store.save(kitchen);
+  expect(store.resolve()).toBe(counter);
+  expect(store.resolve('b')).toBe(kitchen);
+  expect(store.resolve('kitchen 1')).toBe(kitchen);
+  expect(store.resolve('KITCHEN')).toBe(kitchen);
+  expect(store.resolve('bar')).toBeNull();
+  await store.setDefault('b');
+  expect(store.resolve('')).toBe(kitchen);
+  await expect(store.setDefault('zz')).rejects.toThrow('Unknown printer profile');
+});
+
+test('persists profiles and moves the default when it is removed', async () => {
+  const storage = createMemoryStorage();
+  const store = createPrinterProfileStore({ storage });
+  await store.save(counter);
+  await store.save(kitchen);
+  await store.save({ ...kitchen, width: 42 });
+  await store.remove('a');
+
+  const restored = createPrinterProfileStore({ storage });
+  await restored.load();
+  expect(restored.getState()).toEqual({ profiles: [{ ...kitchen, width: 42 }], defaultId: 'b' });
+});
@@ -0,0 +1,67 @@
+import { applyStatusReply, createStatusPoller, describeStatus, isStatusByte, UNKNOWN_STATUS } from '../printerStatus';
+
+const ONLINE = { ...UNKNOWN_STATUS, online: true, checkedAt: 1 };
+
+test('decodes DLE EOT replies', () => {
+  expect(isStatusByte(0x12)).toBe(true);
+  expect(isStatusByte(0x41)).toBe(false);
+  expect(applyStatusReply(ONLINE, 1, 0x1a).online).toBe(false);
+  expect(applyStatusReply(ONLINE, 2, 0x16)).toMatchObject({ coverOpen: true, paperOut: false });
+  expect(applyStatusReply(ONLINE, 2, 0x32)).toMatchObject({ paperOut: true });
+  expect(applyStatusReply(ONLINE, 4, 0x1e)).toMatchObject({ paperNearEnd: true, paperOut: false });
+  expect(applyStatusReply(ONLINE, 4, 0x72)).toMatchObject({ paperOut: true });
+});
+
+test('describes the status for display', () => {
+  expect(describeStatus(UNKNOWN_STATUS)).toBe('Unknown');
+  expect(describeStatus(ONLINE)).toBe('Ready');
+  expect(describeStatus({ ...ONLINE, coverOpen: true, paperNearEnd: true })).toBe('Online, cover open, paper near end');
+  expect(describeStatus({ ...ONLINE, online: false })).toBe('Offline');
+});
+
+test('matches replies to requests in order', async () => {
+  const replies: Record<number, number> = { 1: 0x12, 2: 0x12, 4: 0x1e };
+  const sent: number[][] = [];
+  const changes: boolean[] = [];
+  const poller = createStatusPoller({
+    send: async data => {
+      sent.push(data);
+      // Noise before the reply is ignored.
+      setTimeout(() => poller.receive([0x00, replies[data[2]]]), 0);
+    },
+    onChange: status => changes.push(status.paperNearEnd),
+  });
+  const status = await poller.poll();
+  expect(sent).toEqual([[0x10, 0x04, 1], [0x10, 0x04, 2], [0x10, 0x04, 4]]);
+  expect(status).toMatchObject({ online: true, paperNearEnd: true, paperOut: false, coverOpen: false });
+  expect(changes).toEqual([true]);
+});
+
+test('marks the printer offline when a reply does not arrive', async () => {
+  const poller = createStatusPoller({ send: async () => {}, replyTimeout: 10 });
+  const status = await poller.poll();
+  expect(status.online).toBe(false);
+  expect(status.checkedAt).not.toBeNull();
+});
+
+test('does not poll or go offline while a job is printing', async () => {
+  let busy = true;
+  const sent: number[][] = [];
+  const poller = createStatusPoller({
+    send: async data => {
+      sent.push(data);
+    },
+    replyTimeout: 10,
+    isBusy: () => busy,
+  });
+  expect(await poller.poll()).toBe(UNKNOWN_STATUS);
+  expect(sent).toEqual([]);
+
+  busy = false;
+  const polling = poller.poll();
+  // A job starts printing while the poll waits for its reply.
+  busy = true;
+  const status = await polling;
+  expect(sent).toHaveLength(1);
+  expect(status.checkedAt).toBeNull();
+});
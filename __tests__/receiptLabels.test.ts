@@ -0,0 +1,38 @@
+import { formatInvoice } from '../InvoiceFormatter';
+import { interpretEscPos, renderPreviewText } from '../escposPreview';
+import { LANGUAGE_PACKS, receiptLabels } from '../receiptLabels';
+
+const preview = (bytes: Uint8Array) => renderPreviewText(interpretEscPos(bytes, { width: 32 }));
+
+const invoice = { invNumber: 3, TaxPointDate: '2024-05-01', vat: [{ vatType: '20%', amount: 2 }], totalPrice: 12 };
+
+test('every language pack defines every label', () => {
+  const keys = Object.keys(LANGUAGE_PACKS.sq.labels).sort();
+  Object.values(LANGUAGE_PACKS).forEach(pack => {
+    expect(Object.keys(pack.labels).sort()).toEqual(keys);
+    Object.values(pack.labels).forEach(label => expect(label).not.toBe(''));
+  });
+  expect(receiptLabels('xx')).toBe(LANGUAGE_PACKS.sq.labels);
+});
+
+test('prints labels in the printer language', () => {
+  const text = preview(formatInvoice(invoice, 32, { language: 'en' }));
+  expect(text).toContain('Invoice No.: 3');
+  expect(text).toContain('Tax point date: 2024-05-01');
+  expect(text).toContain('VAT 20%');
+  expect(text).toContain('TOTAL ALL');
+  expect(preview(formatInvoice(invoice, 32))).toContain('Nr. Fatures: 3');
+});
+
+test('lets the invoice override the printer language', () => {
+  const text = preview(formatInvoice({ ...invoice, language: 'it' }, 32, { language: 'en' }));
+  expect(text).toContain('Nr. Fattura: 3');
+  expect(text).toContain('IVA 20%');
+  expect(text).toContain('TOTALE ALL');
+});
+
+test('marks reprints as copies', () => {
+  expect(preview(formatInvoice({ ...invoice, copy: true }, 32)).split('\n')[0].trim()).toBe('KOPJE');
+  expect(preview(formatInvoice({ ...invoice, copy: true }, 32, { language: 'en' }))).toContain('COPY');
+  expect(preview(formatInvoice({ ...invoice, copy: false }, 32))).not.toContain('KOPJE');
+});
@@ -0,0 +1,49 @@
+import { formatInvoice } from '../InvoiceFormatter';
+import { interpretEscPos, renderPreviewText } from '../escposPreview';
+import { alignText, columnWidths, layoutRow, textWidth, wrapWords } from '../receiptTable';
+
+test('wraps on word boundaries and breaks only words longer than a line', () => {
+  expect(wrapWords('Uje natyral Tepelena 1.5L', 12)).toEqual(['Uje natyral', 'Tepelena', '1.5L']);
+  expect(wrapWords('Supercalifragilistic ok', 8)).toEqual(['Supercal', 'ifragili', 'stic ok']);
+  expect(wrapWords(' KOPJE ', 16)).toEqual([' KOPJE ']);
+  expect(wrapWords('a\nb c', 10)).toEqual(['a', 'b c']);
+  expect(wrapWords('', 10)).toEqual(['']);
+});
+
+test('style toggles take no width and are balanced on every line', () => {
+  const bold = '\u0001';
+  expect(textWidth(`${bold}Ylli${bold}`)).toBe(4);
+  expect(wrapWords(`${bold}Dyqani Ylli${bold} sot`, 6)).toEqual([`${bold}Dyqani${bold}`, `${bold}Ylli${bold}`, 'sot']);
+});
+
+test('shares the line between fixed and growing columns', () => {
+  const columns = [{}, { width: 7 }, { width: 11 }];
+  expect(columnWidths(columns, 32)).toEqual([12, 7, 11]);
+  expect(columnWidths(columns, 64)).toEqual([44, 7, 11]);
+  expect(columnWidths([{ grow: 1 }, { grow: 3 }], 21)).toEqual([5, 15]);
+  // Fixed columns give way when the paper is too narrow.
+  expect(columnWidths(columns, 16)).toEqual([1, 6, 7]);
+});
+
+test('aligns, wraps and truncates cells', () => {
+  const columns = [{}, { width: 5, align: 'right' as const }, { width: 4, overflow: 'truncate' as const }];
+  const widths = columnWidths(columns, 24);
+  expect(layoutRow(['Uje natyral', '2', 'cope e madhe'], columns, widths)).toEqual(['Uje natyral       2 cope']);
+  expect(layoutRow(['Uje natyral Tepelena', '12', ''], columns, widths)).toEqual(['Uje natyral      12', 'Tepelena']);
+  expect(alignText('ab', 6, 'center')).toBe('  ab  ');
+});
+
+test('never splits an amount across lines', () => {
+  expect(wrapWords('Totali 2\u00A0469\u00A0129,50L', 16)).toEqual(['Totali', '2\u00A0469\u00A0129,50L']);
+  const columns = [{}, { width: 11, align: 'right' as const }];
+  expect(columnWidths(columns, 32, 1, [['Tavoline', '2\u00A0469\u00A0129,50L']])).toEqual([18, 13]);
+
+  const invoice = {
+    invNumber: 1,
+    lines: [{ productName: 'Tavoline pune', quantity: 1, price: 2469129.5 }],
+    totalPrice: 2469129.5,
+  };
+  const text = renderPreviewText(interpretEscPos(formatInvoice(invoice, 32), { width: 32 })).replace(/\u00A0/g, ' ');
+  expect(text).toMatch(/Tavoline +1  2 469 129,50L\npune\n/);
+  expect(text).toMatch(/SHUMA Leke +2 469 129,50L/);
+});
@@ -0,0 +1,212 @@
+import { Buffer } from 'buffer';
+import { formatInvoice, Invoice, renderTemplate } from '../InvoiceFormatter';
+import { interpretEscPos, renderPreviewText } from '../escposPreview';
+import { DEFAULT_TEMPLATE, ReceiptTemplate, validateTemplate } from '../receiptTemplate';
+
+const render = (template: ReceiptTemplate, invoice: object, width = 32) =>
+  renderPreviewText(interpretEscPos(renderTemplate(template, invoice, width), { width }));
+
+test('binds fields, filters and conditions', () => {
+  const template: ReceiptTemplate = {
+    sections: [
+      { type: 'text', text: '{{header|upper}}', align: 'center' },
+      { type: 'text', text: 'Nr. {{invNumber}}', if: 'invNumber' },
+      { type: 'text', text: 'No customer', if: '!CustomerName' },
+      { type: 'leftRight', left: 'Total', right: '{{totalPrice|fixed:2}}' },
+    ],
+    tailFeed: 0,
+  };
+  expect(render(template, { header: 'Dyqani', totalPrice: 5 })).toBe(
+    '             DYQANI\nNo customer\nTotal                       5.00',
+  );
+});
+
+test('repeats sections for matching items and prints "after" once', () => {
+  const template: ReceiptTemplate = {
+    sections: [
+      {
+        type: 'each',
+        items: 'lines',
+        where: 'price',
+        sections: [{ type: 'leftRight', left: '{{productName}} ({{header}})', right: '{{afterDiscount}}' }],
+        after: [{ type: 'divider', char: '-' }],
+      },
+    ],
+    tailFeed: 0,
+  };
+  const invoice = {
+    header: 'H',
+    lines: [
+      { productName: 'Kafe', price: 100, fullPrice: 100, discountAmount: 10 },
+      { productName: 'Skipped' },
+    ],
+  };
+  expect(render(template, invoice, 16)).toBe('Kafe (H)   90.00\n' + '-'.repeat(16));
+  expect(render(template, { lines: [{ productName: 'Skipped' }] }, 16)).toBe('');
+});
+
+test('formats invoices with the default template', () => {
+  const invoice = {
+    invNumber: 7,
+    lines: [{ productName: 'Uje', quantity: 2, price: 50, fullPrice: 100, uom: 'cope' }],
+    totalPrice: 100,
+  };
+  const text = renderPreviewText(interpretEscPos(formatInvoice(invoice, 32), { width: 32 }));
+  expect(text).toContain('Nr. Fatures: 7');
+  expect(text).toContain('Artikulli      Sasia       Vlera\nUje           2 cope     100,00L');
+  expect(text).toContain('SHUMA Leke               100,00L');
+  expect(Buffer.from(formatInvoice(invoice, 32, { template: DEFAULT_TEMPLATE }))).toEqual(
+    Buffer.from(formatInvoice(invoice, 32)),
+  );
+});
+
+test('prints the invoice barcode at its position and EAN-13 codes under products', () => {
+  const invoice = {
+    invNumber: 15,
+    lines: [{ productName: 'qumesht', quantity: 1, price: 2.5, ean: '4006381333931' }],
+    qrCode: 'https://x.al/q',
+    barcode: 'INV-15',
+  };
+  const codes = (extra: object) =>
+    interpretEscPos(formatInvoice({ ...invoice, ...extra }, 32), { width: 32 })
+      .blocks.flatMap(block => (block.type === 'code' ? [`${block.symbology}:${block.data}`] : []));
+  expect(codes({})).toEqual(['EAN-13:400638133393', 'QR:https://x.al/q', 'CODE128:INV-15']);
+  expect(codes({ barcodePosition: 'top', barcodeType: 'CODE39' })).toEqual([
+    'CODE39:INV-15',
+    'EAN-13:400638133393',
+    'QR:https://x.al/q',
+  ]);
+  expect(codes({ barcodePosition: 'beforeQr' })).toEqual(['EAN-13:400638133393', 'CODE128:INV-15', 'QR:https://x.al/q']);
+  // Data the symbology cannot encode still prints, as text.
+  const text = renderPreviewText(interpretEscPos(formatInvoice({ invNumber: 15, barcode: 'inv', barcodeType: 'EAN13' }, 32), { width: 32 }));
+  expect(text).toContain('inv');
+});
+
+test('prints PDF417 and DataMatrix codes before the QR code', () => {
+  const invoice: Invoice = {
+    invNumber: 15,
+    qrCode: 'https://x.al/q',
+    pdf417: 'DN-7',
+    dataMatrix: 'A1',
+    qrErrorCorrection: 'H',
+  };
+  const commands = formatInvoice(invoice, 32);
+  const codes = interpretEscPos(commands, { width: 32 }).blocks.flatMap(block =>
+    block.type === 'code' ? [`${block.symbology}:${block.data}`] : [],
+  );
+  expect(codes).toEqual(['PDF417:DN-7', 'DataMatrix:A1', 'QR:https://x.al/q']);
+  expect(Buffer.from(commands).toString('latin1')).toContain('\x1D(k\x03\x001E3');
+  // A QR too long for its level falls back to L; one too long for any level is left out.
+  const fallback = Buffer.from(formatInvoice({ ...invoice, qrCode: 'x'.repeat(2000) }, 32)).toString('latin1');
+  expect(fallback).toContain('\x1D(k\x03\x001E0');
+  const tooLong = interpretEscPos(formatInvoice({ invNumber: 15, qrCode: 'x'.repeat(3000) }, 32));
+  expect(tooLong.blocks.some(block => block.type === 'code')).toBe(false);
+});
+
+test('styles header, footer and product names with inline markup', () => {
+  const invoice = {
+    header: 'Dyqani **Ylli**',
+    lines: [{ productName: '__qumesht__ 2*3', quantity: 1, price: 2.5 }],
+    Footer: '==Faleminderit==',
+  };
+  const segments = interpretEscPos(formatInvoice(invoice, 32), { width: 32 }).blocks.flatMap(block =>
+    block.type === 'text' ? block.segments.filter(segment => segment.text.trim()) : [],
+  );
+  const styled = (text: string) => segments.find(segment => segment.text.includes(text))!.style;
+  expect(styled('Dyqani').bold).toBe(false);
+  expect(styled('Ylli').bold).toBe(true);
+  expect(styled('qumesht').underline).toBe(1);
+  expect(styled('2*3').underline).toBe(0);
+  expect(styled('Faleminderit').inverse).toBe(true);
+  // Markers take no width and only style sections that allow markup.
+  const centered: ReceiptTemplate = {
+    sections: [{ type: 'text', text: '{{header}}', align: 'center', markup: true }],
+    tailFeed: 0,
+  };
+  expect(render(centered, invoice)).toBe('          Dyqani Ylli');
+  expect(render({ sections: [{ type: 'text', text: '{{header}}' }], tailFeed: 0 }, invoice)).toBe('Dyqani **Ylli**');
+});
+
+test('prints font B, upside-down and independently scaled text', () => {
+  const template: ReceiptTemplate = {
+    sections: [
+      { type: 'text', text: 'x'.repeat(45), font: 'B', underline: 2 },
+      { type: 'text', text: 'Nr', size: [2, 1], upsideDown: true },
+    ],
+    tailFeed: 0,
+  };
+  const { blocks } = interpretEscPos(renderTemplate(template, {}, 32), { width: 32 });
+  const lines = blocks.flatMap(block => (block.type === 'text' ? [block.segments] : []));
+  expect(lines[0][0].text).toHaveLength(42);
+  expect(lines[0][0].style).toMatchObject({ font: 'B', underline: 2 });
+  expect(lines[2][0].style).toMatchObject({ font: 'A', width: 2, height: 1, upsideDown: true });
+});
+
+test('lays line items out in columns that adapt to the paper width', () => {
+  const invoice = {
+    lines: [
+      { productName: 'Uje natyral Tepelena', quantity: 2, price: 50, fullPrice: 100, uom: 'cope' },
+      { productName: 'Kafe', quantity: 1, price: 100, fullPrice: 100, discountAmount: 10 },
+    ],
+    vat: [{ vatType: '20%', amount: 30 }],
+  };
+  const text = (width: number) => renderPreviewText(interpretEscPos(formatInvoice(invoice, width), { width }));
+  expect(text(32)).toContain(
+    [
+      'Artikulli      Sasia       Vlera',
+      'Uje natyral   2 cope     100,00L',
+      'Tepelena',
+      'Kafe              1       90,00L',
+      '  Zbritje                -10,00L',
+    ].join('\n'),
+  );
+  // From 42 columns on the unit price gets a column too.
+  expect(text(42)).toContain('Artikulli     Sasia      Cmimi       Vlera\nUje natyral  2 cope     50,00L     100,00L');
+  expect(text(64)).toContain('Uje natyral Tepelena               2 cope     50,00L     100,00L');
+  expect(text(48)).toContain('TVSH 20%                                  30,00L');
+});
+
+test('lays out scaled rows in the characters that fit at their scale', () => {
+  const template: ReceiptTemplate = {
+    sections: [
+      { type: 'leftRight', left: 'SHUMA', right: '100,00L', size: 2 },
+      {
+        type: 'table',
+        items: 'lines',
+        size: [2, 1],
+        columns: [{ text: '{{productName}}', overflow: 'truncate' }, { text: '{{quantity}}', width: 3, align: 'right' }],
+      },
+    ],
+    tailFeed: 0,
+  };
+  const invoice = { lines: [{ productName: 'Uje natyral', quantity: 2 }] };
+  const { blocks } = interpretEscPos(renderTemplate(template, invoice, 32), { width: 32 });
+  const lines = blocks.flatMap(block => (block.type === 'text' ? [block.segments.map(s => s.text).join('')] : []));
+  expect(lines).toEqual(['SHUMA    100,00L', 'Uje natyral    2']);
+});
+
+test('reports invalid templates', () => {
+  expect(validateTemplate(DEFAULT_TEMPLATE)).toEqual([]);
+  expect(validateTemplate([])).toEqual(['template must be an object']);
+  expect(
+    validateTemplate({
+      sections: [
+        { type: 'text', text: 'x', align: 'middle' },
+        { type: 'each', items: 'lines', sections: [{ type: 'image' }] },
+        { type: 'barcode', data: '{{barcode}}', symbology: 'UPC', text: 'left' },
+        { type: 'text', text: 'x', underline: 3, font: 'C', markup: 'yes' },
+        { type: 'table', items: 'lines', columns: [{ text: '{{productName}}', align: 'top', overflow: 'hide' }] },
+      ],
+    }),
+  ).toEqual([
+    'sections[0].align must be one of left, center, right',
+    'sections[1].sections[0].type "image" is not a known section type',
+    'sections[2].symbology must be one of CODE128, EAN13, CODE39 or a binding',
+    'sections[2].text must be one of none, above, below, both',
+    'sections[3].underline must be true, false, 1 or 2',
+    'sections[3].font must be A or B',
+    'sections[3].markup must be true or false',
+    'sections[4].columns[0].align must be one of left, center, right',
+    'sections[4].columns[0].overflow must be wrap or truncate',
+  ]);
+});
@@ -0,0 +1,140 @@
+import { Buffer } from 'buffer';
+import { createHash, createHmac } from 'crypto';
+import { createRouter, HttpRequest } from '../httpServer';
+import {
+  corsHeaders,
+  createPairingToken,
+  createRequestGuard,
+  isOriginAllowed,
+  normalizeOrigin,
+  RejectedRequest,
+  signRequest,
+} from '../serverAuth';
+import { hmacSha256, sha256 } from '../sha256';
+
+const TOKEN = '0123456789abcdef0123456789abcdef';
+const NOW = 1_700_000_000_000;
+
+const request = (overrides: Partial<HttpRequest> = {}): HttpRequest => ({
+  method: 'POST',
+  path: '/print',
+  query: {},
+  target: '/print',
+  version: 'HTTP/1.1',
+  headers: {},
+  body: Buffer.from('{"invNumber":1}'),
+  keepAlive: true,
+  params: {},
+  ...overrides,
+});
+
+const setup = (allowedOrigins = ['shop.example.com']) => {
+  const rejected: RejectedRequest[] = [];
+  const guard = createRequestGuard({
+    getSecurity: () => ({ token: TOKEN, allowedOrigins, localhostOnly: false }),
+    now: () => NOW,
+    onReject: r => rejected.push(r),
+  });
+  return { guard, rejected };
+};
+
+const signed = (req: HttpRequest, timestamp = String(NOW / 1000)): HttpRequest => ({
+  ...req,
+  headers: {
+    ...req.headers,
+    'x-signature-timestamp': timestamp,
+    'x-signature': signRequest(TOKEN, timestamp, req.method, req.target, req.body),
+  },
+});
+
+test('SHA-256 and HMAC-SHA256 match Node crypto', () => {
+  [0, 3, 55, 56, 64, 119, 1000].forEach(length => {
+    const data = Buffer.from(Array.from({ length }, (_, i) => (i * 31) & 0xff));
+    expect(Buffer.from(sha256(data)).toString('hex')).toBe(createHash('sha256').update(data).digest('hex'));
+    const key = Buffer.alloc(length % 100, 7);
+    expect(Buffer.from(hmacSha256(key, data)).toString('hex')).toBe(
+      createHmac('sha256', key).update(data).digest('hex'),
+    );
+  });
+});
+
+test('creates 32-digit pairing tokens', () => {
+  expect(createPairingToken(size => Uint8Array.from({ length: size }, (_, i) => i))).toBe(
+    '000102030405060708090a0b0c0d0e0f',
+  );
+});
+
+test('matches origins against full origins and host names', () => {
+  expect(isOriginAllowed('https://shop.example.com', ['shop.example.com'])).toBe(true);
+  expect(isOriginAllowed('http://shop.example.com', ['https://shop.example.com/'])).toBe(false);
+  expect(isOriginAllowed('https://evil.example.com', ['shop.example.com'])).toBe(false);
+  expect(isOriginAllowed('null', ['shop.example.com'])).toBe(false);
+  expect(isOriginAllowed('https://anything.test', ['*'])).toBe(true);
+  expect(isOriginAllowed('https://shop.example.com', [' https://Shop.example.com/ '])).toBe(true);
+  expect(normalizeOrigin(' https://Shop.example.com/ ')).toBe('https://shop.example.com');
+});
+
+test('echoes only allowed origins in CORS headers', () => {
+  const allowed = corsHeaders(request({ headers: { origin: 'https://shop.example.com' } }), ['shop.example.com']);
+  expect(allowed['Access-Control-Allow-Origin']).toBe('https://shop.example.com');
+  const refused = corsHeaders(request({ headers: { origin: 'https://evil.test' } }), ['shop.example.com']);
+  expect(refused['Access-Control-Allow-Origin']).toBeUndefined();
+});
+
+test('accepts the pairing token and rejects everything else', () => {
+  const { guard, rejected } = setup();
+  expect(guard(request({ headers: { authorization: `Bearer ${TOKEN}` } }))).toBeNull();
+  expect(guard(request({ headers: { authorization: 'Bearer wrong' } }))!.status).toBe(401);
+  const missing = guard(request({ remoteAddress: '192.168.1.9' }))!;
+  expect(missing.status).toBe(401);
+  expect(missing.headers!['WWW-Authenticate']).toBe('Bearer');
+  expect(rejected[1]).toEqual({
+    time: NOW,
+    method: 'POST',
+    path: '/print',
+    origin: null,
+    remoteAddress: '192.168.1.9',
+    status: 401,
+    reason: 'Missing pairing token or signature',
+  });
+});
+
+test('rejects origins off the allowlist, even with the token', () => {
+  const { guard, rejected } = setup();
+  const headers = { authorization: `Bearer ${TOKEN}` };
+  expect(guard(request({ headers: { ...headers, origin: 'https://shop.example.com' } }))).toBeNull();
+  expect(guard(request({ headers: { ...headers, origin: 'https://evil.test' } }))!.status).toBe(403);
+  expect(guard(request({ method: 'OPTIONS', headers: { origin: 'https://shop.example.com' } }))).toBeNull();
+  expect(guard(request({ method: 'OPTIONS', headers: { origin: 'https://evil.test' } }))!.status).toBe(403);
+  expect(rejected.map(r => r.reason)).toEqual(['Origin not allowed', 'Origin not allowed']);
+});
+
+test('accepts each signed request once, within the allowed clock skew', () => {
+  const { guard, rejected } = setup();
+  const req = signed(request());
+  expect(guard(req)).toBeNull();
+  expect(guard(req)!.status).toBe(401);
+  expect(guard(signed(request(), String(NOW / 1000 - 600)))!.status).toBe(401);
+  // The signature covers the body and the query.
+  expect(guard({ ...signed(request()), body: Buffer.from('{"invNumber":2}') })!.status).toBe(401);
+  expect(guard({ ...signed(request({ target: '/template' })), target: '/template?printer=bar' })!.status).toBe(401);
+  expect(rejected.map(r => r.reason)).toEqual([
+    'Signature already used',
+    'Signature timestamp is missing or out of range',
+    'Invalid signature',
+    'Invalid signature',
+  ]);
+});
+
+test('the router answers rejected requests before routing', async () => {
+  const { guard } = setup();
+  const router = createRouter({ guard, defaultHeaders: req => corsHeaders(req, ['shop.example.com']) });
+  router.add('POST', '/print', () => ({ status: 202 }));
+  expect((await router.handle(request())).status).toBe(401);
+  expect((await router.handle(request({ path: '/unknown' }))).status).toBe(401);
+  const ok = await router.handle(
+    request({ headers: { authorization: `Bearer ${TOKEN}`, origin: 'https://shop.example.com' } }),
+  );
+  expect(ok.status).toBe(202);
+  expect(ok.headers!['Access-Control-Allow-Origin']).toBe('https://shop.example.com');
+});
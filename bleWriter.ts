@@ -0,0 +1,111 @@
+// bleWriter.ts
+
+// Default ATT MTU before negotiation; the ATT header takes 3 bytes of it.
+export const DEFAULT_BLE_MTU = 23;
+const ATT_HEADER_SIZE = 3;
+// Largest MTU we ask for; most printers settle on much less.
+export const PREFERRED_BLE_MTU = 512;
+
+export interface ChunkedWriteOptions {
+  chunkSize: number;
+  // Pause between chunks when writing without response (ms).
+  chunkDelay?: number;
+  withResponse: boolean;
+  // Overall timeout; derived from the payload size when omitted.
+  timeout?: number;
+  write: (chunk: number[], withResponse: boolean) => Promise<void>;
+}
+
+/**
+ * Returns true when a characteristic advertises the given property.
+ * Properties may arrive as an object, an array or a comma-separated string.
+ */
+export function hasCharacteristicProperty(char: any, property: string): boolean {
+  if (!char || !char.properties) {
+    return false;
+  }
+  const wanted = property.toLowerCase();
+  let props: string[] = [];
+  if (Array.isArray(char.properties)) {
+    props = char.properties;
+  } else if (typeof char.properties === 'object') {
+    props = Object.keys(char.properties);
+  } else if (typeof char.properties === 'string') {
+    props = char.properties.split(',').map((s: string) => s.trim());
+  }
+  return props.some((prop: string) => prop.toLowerCase() === wanted);
+}
+
+/**
+ * Returns the payload size that fits in one write for the given MTU.
+ */
+export function chunkSizeForMtu(mtu: number): number {
+  const size = (mtu || DEFAULT_BLE_MTU) - ATT_HEADER_SIZE;
+  return Math.max(DEFAULT_BLE_MTU - ATT_HEADER_SIZE, Math.min(size, PREFERRED_BLE_MTU - ATT_HEADER_SIZE));
+}
+
+/**
+ * Splits data into chunks of at most chunkSize bytes.
+ */
+export function chunkPayload(data: number[], chunkSize: number): number[][] {
+  const size = Math.max(1, Math.floor(chunkSize));
+  const chunks: number[][] = [];
+  for (let i = 0; i < data.length; i += size) {
+    chunks.push(data.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Estimates how long a write of byteCount bytes may take before it is
+ * considered stuck: a fixed allowance plus a per-chunk budget.
+ */
+export function writeTimeoutFor(byteCount: number, chunkSize: number, chunkDelay: number = 0): number {
+  const chunks = Math.ceil(byteCount / Math.max(1, chunkSize));
+  return 3000 + chunks * (chunkDelay + 100);
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Writes data chunk by chunk, waiting for each write to finish and pacing
+ * unacknowledged writes so slow printers can drain their buffer.
+ * Rejects with "Print timeout" when the whole write takes too long.
+ */
+export function writeChunked(data: number[], options: ChunkedWriteOptions): Promise<void> {
+  const chunkDelay = options.withResponse ? 0 : options.chunkDelay ?? 20;
+  const timeout = options.timeout ?? writeTimeoutFor(data.length, options.chunkSize, chunkDelay);
+  const chunks = chunkPayload(data, options.chunkSize);
+
+  return new Promise<void>((resolve, reject) => {
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      reject(new Error('Print timeout'));
+    }, timeout);
+
+    (async () => {
+      for (let i = 0; i < chunks.length; i++) {
+        if (timedOut) {
+          return;
+        }
+        await options.write(chunks[i], options.withResponse);
+        if (chunkDelay > 0 && i < chunks.length - 1) {
+          await sleep(chunkDelay);
+        }
+      }
+    })()
+      .then(() => {
+        if (!timedOut) {
+          clearTimeout(timer);
+          resolve();
+        }
+      })
+      .catch(err => {
+        if (!timedOut) {
+          clearTimeout(timer);
+          reject(err);
+        }
+      });
+  });
+}
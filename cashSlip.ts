@@ -0,0 +1,100 @@
+// cashSlip.ts
+import { documentData, FormatOptions, PrintSettings, renderDocument } from './InvoiceFormatter';
+import { InvoiceFieldError, validatePrintSettings } from './invoiceValidator';
+import { DEFAULT_CURRENCY } from './money';
+import { receiptLabels } from './receiptLabels';
+import { ReceiptTemplate } from './receiptTemplate';
+
+export type CashSlipType = 'cashIn' | 'cashOut';
+
+/**
+ * Cash put into the register (cashIn, e.g. the morning float) or taken out
+ * of it (cashOut).
+ */
+export interface CashSlip extends PrintSettings {
+  documentType: CashSlipType;
+  // Amount moved, always positive; the document type gives the direction.
+  amount: number;
+  // ISO 4217 code. Default is ALL.
+  currency?: string;
+  header?: string;
+  tin?: string;
+  address?: string;
+  buCode?: string;
+  opCode?: string;
+  Date?: string;
+  reason?: string;
+  // Fiscal code of the registered cash deposit or withdrawal.
+  FCDC?: string;
+  Footer?: string;
+}
+
+/**
+ * The cash slip layout: business, direction and amount in large print, and
+ * a line for the cashier to sign.
+ */
+export const CASH_SLIP_TEMPLATE: ReceiptTemplate = {
+  name: 'cashSlip',
+  sections: [
+    { type: 'text', text: '{{header}}', align: 'center', markup: true, if: 'header' },
+    { type: 'text', text: '{{tin}}', align: 'center', if: 'tin' },
+    { type: 'text', text: '{{address}}', align: 'center', if: 'address' },
+    { type: 'text', text: '{{title}}', align: 'center', bold: true, size: 2 },
+    { type: 'text', text: '{{label.businessUnit}}: {{buCode}}', if: 'buCode' },
+    { type: 'text', text: '{{label.operatorCode}}: {{opCode}}', if: 'opCode' },
+    { type: 'text', text: '{{label.date}}: {{Date}}', if: 'Date' },
+    { type: 'divider' },
+    { type: 'leftRight', left: '{{label.amount}}', right: '{{amount|money}}', bold: true, size: [1, 2] },
+    { type: 'text', text: '{{label.reason}}: {{reason}}', if: 'reason' },
+    { type: 'divider' },
+    { type: 'text', text: 'FCDC: {{FCDC}}', align: 'center', if: 'FCDC' },
+    { type: 'feed', lines: 2 },
+    { type: 'text', text: '{{label.signature}}: ____________________' },
+    { type: 'feed', lines: 1 },
+    { type: 'text', text: '{{Footer}}', align: 'center', markup: true, if: 'Footer' },
+  ],
+  tailFeed: 4,
+};
+
+function cashSlipData(slip: CashSlip, options: FormatOptions): Record<string, unknown> {
+  const labels = receiptLabels(slip.language ?? options.language);
+  return {
+    ...documentData(slip, options),
+    currency: slip.currency ?? DEFAULT_CURRENCY,
+    title: slip.documentType === 'cashOut' ? labels.cashOut : labels.cashIn,
+  };
+}
+
+/**
+ * Returns the printer bytes for a cash deposit or withdrawal slip.
+ */
+export function formatCashSlip(slip: CashSlip, printerWidth?: number, options: FormatOptions = {}): Uint8Array {
+  return renderDocument(CASH_SLIP_TEMPLATE, slip, cashSlipData, printerWidth, options);
+}
+
+/**
+ * Checks a cash slip received over the network before it is printed.
+ */
+export function validateCashSlip(value: unknown): InvoiceFieldError[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ field: '', message: 'cash slip must be a JSON object' }];
+  }
+  const slip = value as Record<string, any>;
+  const errors = validatePrintSettings(slip);
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  ['header', 'tin', 'address', 'buCode', 'opCode', 'Date', 'reason', 'FCDC', 'Footer'].forEach(field => {
+    if (slip[field] != null && typeof slip[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  });
+  if (slip.amount == null) {
+    fail('amount', 'is required');
+  } else if (typeof slip.amount !== 'number' || !Number.isFinite(slip.amount) || slip.amount <= 0) {
+    fail('amount', 'must be a number greater than zero');
+  }
+  if (slip.currency != null && (typeof slip.currency !== 'string' || !/^[A-Z]{3}$/.test(slip.currency))) {
+    fail('currency', 'must be a three-letter ISO 4217 code');
+  }
+  return errors;
+}
@@ -0,0 +1,265 @@
+// codePages.ts
+import { selectCodePage } from './escpos-commands';
+
+export type CodePageName = 'cp437' | 'cp850' | 'cp852' | 'cp858' | 'cp866' | 'cp1250' | 'cp1251' | 'cp1252';
+
+export interface CodePage {
+  label: string;
+  // Table number sent with ESC t (Epson numbering).
+  table: number;
+  // Characters for bytes 0x80-0xFF; \u0000 marks unassigned bytes.
+  upper: string;
+}
+
+export const DEFAULT_CODE_PAGE: CodePageName = 'cp858';
+
+export const CODE_PAGES: Record<CodePageName, CodePage> = {
+  cp437: {
+    label: 'PC437 (USA)',
+    table: 0,
+    upper:
+    'ÇüéâäàåçêëèïîìÄÅ' +
+    'ÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+    'áíóúñÑªº¿⌐¬½¼¡«»' +
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧' +
+    '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩' +
+    '≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  },
+  cp850: {
+    label: 'PC850 (Multilingual)',
+    table: 2,
+    upper:
+    'ÇüéâäàåçêëèïîìÄÅ' +
+    'ÉæÆôöòûùÿÖÜø£Ø×ƒ' +
+    'áíóúñÑªº¿®¬½¼¡«»' +
+    '░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤' +
+    'ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀' +
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´' +
+    '\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  },
+  cp852: {
+    label: 'PC852 (Latin 2)',
+    table: 18,
+    upper:
+    'ÇüéâäůćçłëŐőîŹÄĆ' +
+    'ÉĹĺôöĽľŚśÖÜŤťŁ×č' +
+    'áíóúĄąŽžĘę¬źČş«»' +
+    '░▒▓│┤ÁÂĚŞ╣║╗╝Żż┐' +
+    '└┴┬├─┼Ăă╚╔╩╦╠═╬¤' +
+    'đĐĎËďŇÍÎě┘┌█▄ŢŮ▀' +
+    'ÓßÔŃńňŠšŔÚŕŰýÝţ´' +
+    '\u00AD˝˛ˇ˘§÷¸°¨˙űŘř■\u00A0',
+  },
+  cp858: {
+    label: 'PC858 (Euro)',
+    table: 19,
+    upper:
+    'ÇüéâäàåçêëèïîìÄÅ' +
+    'ÉæÆôöòûùÿÖÜø£Ø×ƒ' +
+    'áíóúñÑªº¿®¬½¼¡«»' +
+    '░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤' +
+    'ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀' +
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´' +
+    '\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  },
+  cp866: {
+    label: 'PC866 (Cyrillic)',
+    table: 17,
+    upper:
+    'АБВГДЕЖЗИЙКЛМНОП' +
+    'РСТУФХЦЧШЩЪЫЬЭЮЯ' +
+    'абвгдежзийклмноп' +
+    '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧' +
+    '╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'рстуфхцчшщъыьэюя' +
+    'ЁёЄєЇїЎў°∙·√№¤■\u00A0',
+  },
+  cp1250: {
+    label: 'WPC1250 (Central Europe)',
+    table: 45,
+    upper:
+    '€\u0000‚\u0000„…†‡\u0000‰Š‹ŚŤŽŹ' +
+    '\u0000‘’“”•–—\u0000™š›śťžź' +
+    '\u00A0ˇ˘Ł¤Ą¦§¨©Ş«¬\u00AD®Ż' +
+    '°±˛ł´µ¶·¸ąş»Ľ˝ľż' +
+    'ŔÁÂĂÄĹĆÇČÉĘËĚÍÎĎ' +
+    'ĐŃŇÓÔŐÖ×ŘŮÚŰÜÝŢß' +
+    'ŕáâăäĺćçčéęëěíîď' +
+    'đńňóôőö÷řůúűüýţ˙',
+  },
+  cp1251: {
+    label: 'WPC1251 (Cyrillic)',
+    table: 46,
+    upper:
+    'ЂЃ‚ѓ„…†‡€‰Љ‹ЊЌЋЏ' +
+    'ђ‘’“”•–—\u0000™љ›њќћџ' +
+    '\u00A0ЎўЈ¤Ґ¦§Ё©Є«¬\u00AD®Ї' +
+    '°±Ііґµ¶·ё№є»јЅѕї' +
+    'АБВГДЕЖЗИЙКЛМНОП' +
+    'РСТУФХЦЧШЩЪЫЬЭЮЯ' +
+    'абвгдежзийклмноп' +
+    'рстуфхцчшщъыьэюя',
+  },
+  cp1252: {
+    label: 'WPC1252 (Western)',
+    table: 16,
+    upper:
+    '€\u0000‚ƒ„…†‡ˆ‰Š‹Œ\u0000Ž\u0000' +
+    '\u0000‘’“”•–—˜™š›œ\u0000žŸ' +
+    '\u00A0¡¢£¤¥¦§¨©ª«¬\u00AD®¯' +
+    '°±²³´µ¶·¸¹º»¼½¾¿' +
+    'ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏ' +
+    'ÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞß' +
+    'àáâãäåæçèéêëìíîï' +
+    'ðñòóôõö÷øùúûüýþÿ',
+  },
+};
+
+// Replacements for characters a code page lacks, tried before stripping accents.
+const TRANSLITERATIONS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '‘': "'",
+  '’': "'",
+  '‚': ',',
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '«': '"',
+  '»': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '•': '*',
+  '·': '.',
+  '×': 'x',
+  '÷': '/',
+  '°': 'o',
+  '\u00A0': ' ',
+  'ß': 'ss',
+  'Æ': 'AE',
+  'æ': 'ae',
+  'Œ': 'OE',
+  'œ': 'oe',
+  'Ø': 'O',
+  'ø': 'o',
+  'Ł': 'L',
+  'ł': 'l',
+  'Đ': 'D',
+  'đ': 'd',
+  'Ð': 'D',
+  'ð': 'd',
+  'Þ': 'Th',
+  'þ': 'th',
+  'ı': 'i',
+};
+
+// Accented letters common on our receipts, for runtimes without String.prototype.normalize.
+const BASE_LETTERS: Record<string, string> = {
+  'à': 'a', 'á': 'a', 'â': 'a', 'ä': 'a', 'ã': 'a', 'å': 'a',
+  'À': 'A', 'Á': 'A', 'Â': 'A', 'Ä': 'A', 'Ã': 'A', 'Å': 'A',
+  'ç': 'c', 'Ç': 'C', 'ć': 'c', 'Ć': 'C', 'č': 'c', 'Č': 'C',
+  'è': 'e', 'é': 'e', 'ê': 'e', 'ë': 'e', 'È': 'E', 'É': 'E', 'Ê': 'E', 'Ë': 'E',
+  'ì': 'i', 'í': 'i', 'î': 'i', 'ï': 'i', 'Ì': 'I', 'Í': 'I', 'Î': 'I', 'Ï': 'I',
+  'ñ': 'n', 'Ñ': 'N',
+  'ò': 'o', 'ó': 'o', 'ô': 'o', 'ö': 'o', 'õ': 'o', 'Ò': 'O', 'Ó': 'O', 'Ô': 'O', 'Ö': 'O', 'Õ': 'O',
+  'š': 's', 'Š': 'S', 'ž': 'z', 'Ž': 'Z',
+  'ù': 'u', 'ú': 'u', 'û': 'u', 'ü': 'u', 'Ù': 'U', 'Ú': 'U', 'Û': 'U', 'Ü': 'U',
+  'ý': 'y', 'ÿ': 'y', 'Ý': 'Y',
+};
+
+const reverseMaps: Partial<Record<CodePageName, Map<string, number>>> = {};
+
+function reverseMap(name: CodePageName): Map<string, number> {
+  let map = reverseMaps[name];
+  if (!map) {
+    map = new Map<string, number>();
+    const upper = CODE_PAGES[name].upper;
+    for (let i = 0; i < upper.length; i++) {
+      if (upper[i] !== '\u0000') {
+        map.set(upper[i], 0x80 + i);
+      }
+    }
+    reverseMaps[name] = map;
+  }
+  return map;
+}
+
+/**
+ * Returns true when the name refers to a supported code page.
+ */
+export function isCodePageName(name: unknown): name is CodePageName {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(CODE_PAGES, name);
+}
+
+/**
+ * Returns an ASCII approximation of a character, or null if none is known.
+ */
+export function transliterate(char: string): string | null {
+  if (TRANSLITERATIONS[char] != null) {
+    return TRANSLITERATIONS[char];
+  }
+  if (BASE_LETTERS[char] != null) {
+    return BASE_LETTERS[char];
+  }
+  if (typeof char.normalize === 'function') {
+    const stripped = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    if (stripped && stripped !== char && /^[\x20-\x7e]+$/.test(stripped)) {
+      return stripped;
+    }
+  }
+  return null;
+}
+
+/**
+ * Encodes text for the given code page as a byte string (one char per byte,
+ * to be sent with Buffer.from(..., 'latin1')). Characters the code page lacks
+ * are transliterated, and replaced with "?" as a last resort.
+ */
+export function encodeText(text: string, codePage: CodePageName = DEFAULT_CODE_PAGE): string {
+  const map = reverseMap(codePage);
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && code < 0x80) {
+      result += char;
+      continue;
+    }
+    const byte = map.get(char);
+    if (byte != null) {
+      result += String.fromCharCode(byte);
+      continue;
+    }
+    const fallback = transliterate(char);
+    result += fallback != null ? encodeText(fallback, codePage) : '?';
+  }
+  return result;
+}
+
+/**
+ * Returns the ESC t command selecting the given code page.
+ */
+export function codePageCommand(codePage: CodePageName = DEFAULT_CODE_PAGE): string {
+  return selectCodePage(CODE_PAGES[codePage].table);
+}
+
+/**
+ * Returns the text as it will print: characters the code page lacks are
+ * transliterated, so the result encodes one byte per character and its
+ * length is the printed width.
+ */
+export function printableText(text: string, codePage: CodePageName = DEFAULT_CODE_PAGE): string {
+  const upper = CODE_PAGES[codePage].upper;
+  const encoded = encodeText(text, codePage);
+  let result = '';
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    result += code < 0x80 ? encoded[i] : upper[code - 0x80];
+  }
+  return result;
+}
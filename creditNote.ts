@@ -0,0 +1,109 @@
+// creditNote.ts
+import { FormatOptions, Invoice, invoiceData, renderDocument } from './InvoiceFormatter';
+import { InvoiceFieldError, InvoiceValidationOptions, validateInvoice } from './invoiceValidator';
+import { DEFAULT_TEMPLATE, ReceiptTemplate, TemplateSection } from './receiptTemplate';
+
+/**
+ * A refund: an invoice whose lines and totals are negative, referring to the
+ * fiscalized invoice it corrects.
+ */
+export interface CreditNote extends Omit<Invoice, 'documentType'> {
+  documentType: 'creditNote';
+  // IIC of the invoice being refunded.
+  originalIIC: string;
+  originalInvNumber?: string | number;
+  originalDate?: string;
+  reason?: string;
+}
+
+const REFERENCE_SECTIONS: TemplateSection[] = [
+  { type: 'divider' },
+  { type: 'text', text: '{{label.originalInvoice}}:', bold: true },
+  { type: 'text', text: '{{label.invoiceNumber}}: {{originalInvNumber}}', if: 'originalInvNumber' },
+  { type: 'text', text: '{{label.date}}: {{originalDate}}', if: 'originalDate' },
+  { type: 'text', text: 'IIC: {{originalIIC}}', if: 'originalIIC' },
+  { type: 'text', text: '{{label.reason}}: {{reason}}', if: 'reason' },
+];
+
+/**
+ * Adapts a section of the invoice layout: the invoice type gives way to the
+ * credit note title, and line discounts, already negative, print without the
+ * extra minus sign.
+ */
+function creditNoteSection(section: TemplateSection): TemplateSection {
+  if (section.type === 'text' && section.if === 'invoiceType') {
+    return { type: 'text', text: '{{label.creditNote}}', align: 'center', bold: true, size: 2 };
+  }
+  if (section.type === 'table' && section.details) {
+    return {
+      ...section,
+      details: section.details.map(detail =>
+        detail.type === 'leftRight' && detail.if === 'discountAmount'
+          ? { ...detail, right: '{{discountAmount|money}}' }
+          : detail
+      ),
+    };
+  }
+  return section;
+}
+
+/**
+ * The invoice layout with the credit note title and, before the lines, a
+ * reference to the original invoice.
+ */
+export const CREDIT_NOTE_TEMPLATE: ReceiptTemplate = {
+  ...DEFAULT_TEMPLATE,
+  name: 'creditNote',
+  sections: DEFAULT_TEMPLATE.sections.flatMap((section, index) =>
+    index === DEFAULT_TEMPLATE.sections.findIndex(s => s.type === 'divider')
+      ? [...REFERENCE_SECTIONS, section]
+      : [creditNoteSection(section)]
+  ),
+};
+
+/**
+ * Returns the printer bytes for a credit note. options.template is the
+ * invoice layout and does not apply.
+ */
+export function formatCreditNote(note: CreditNote, printerWidth?: number, options: FormatOptions = {}): Uint8Array {
+  return renderDocument(CREDIT_NOTE_TEMPLATE, note, invoiceData, printerWidth, options);
+}
+
+/**
+ * Checks a credit note as validateInvoice checks an invoice, and also that
+ * it names the original invoice and that its lines and total are negative.
+ */
+export function validateCreditNote(value: unknown, options: InvoiceValidationOptions = {}): InvoiceFieldError[] {
+  const errors = validateInvoice(value, options);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return errors;
+  }
+  const note = value as Record<string, any>;
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  if (note.originalIIC == null || note.originalIIC === '') {
+    fail('originalIIC', 'is required');
+  } else if (typeof note.originalIIC !== 'string') {
+    fail('originalIIC', 'must be a string');
+  }
+  const { originalInvNumber } = note;
+  if (originalInvNumber != null && typeof originalInvNumber !== 'string' && typeof originalInvNumber !== 'number') {
+    fail('originalInvNumber', 'must be a string or a number');
+  }
+  ['originalDate', 'reason'].forEach(field => {
+    if (note[field] != null && typeof note[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  });
+  if (Array.isArray(note.lines)) {
+    note.lines.forEach((line: any, index: number) => {
+      if (typeof line?.quantity === 'number' && typeof line?.price === 'number' && line.quantity * line.price > 0) {
+        fail(`lines[${index}]`, 'must have a negative amount on a credit note');
+      }
+    });
+  }
+  if (typeof note.totalPrice === 'number' && note.totalPrice >= 0) {
+    fail('totalPrice', 'must be negative on a credit note');
+  }
+  return errors;
+}
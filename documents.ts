@@ -0,0 +1,77 @@
+// documents.ts
+import { CashSlip, formatCashSlip, validateCashSlip } from './cashSlip';
+import { CreditNote, formatCreditNote, validateCreditNote } from './creditNote';
+import { FormatOptions, formatInvoice, Invoice } from './InvoiceFormatter';
+import { InvoiceFieldError, InvoiceValidationOptions, validateInvoice } from './invoiceValidator';
+import { formatKitchenTicket, KitchenTicket, validateKitchenTicket } from './kitchenTicket';
+
+export type DocumentType = 'invoice' | 'creditNote' | 'kitchenTicket' | 'cashIn' | 'cashOut';
+
+export const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'creditNote', 'kitchenTicket', 'cashIn', 'cashOut'];
+
+/**
+ * Anything the app prints, told apart by documentType. Documents without one
+ * are sales invoices, as before document types existed.
+ */
+export type PrintDocument = Invoice | CreditNote | KitchenTicket | CashSlip;
+
+/**
+ * Returns the printer bytes for a document, with the formatter of its type.
+ */
+export function formatDocument(
+  document: PrintDocument,
+  printerWidth?: number,
+  options: FormatOptions = {}
+): Uint8Array {
+  switch (document.documentType) {
+    case 'creditNote':
+      return formatCreditNote(document, printerWidth, options);
+    case 'kitchenTicket':
+      return formatKitchenTicket(document, printerWidth, options);
+    case 'cashIn':
+    case 'cashOut':
+      return formatCashSlip(document, printerWidth, options);
+    default:
+      return formatInvoice(document, printerWidth, options);
+  }
+}
+
+/**
+ * Checks a document received over the network with the validator of its
+ * documentType; an unknown documentType is the only error reported.
+ */
+export function validateDocument(value: unknown, options: InvoiceValidationOptions = {}): InvoiceFieldError[] {
+  const documentType = value && typeof value === 'object' ? (value as Record<string, unknown>).documentType : undefined;
+  switch (documentType) {
+    case undefined:
+    case 'invoice':
+      return validateInvoice(value, options);
+    case 'creditNote':
+      return validateCreditNote(value, options);
+    case 'kitchenTicket':
+      return validateKitchenTicket(value);
+    case 'cashIn':
+    case 'cashOut':
+      return validateCashSlip(value);
+    default:
+      return [{ field: 'documentType', message: `must be one of ${DOCUMENT_TYPES.join(', ')}` }];
+  }
+}
+
+/**
+ * A short name for a document in lists, e.g. "Invoice 12" or "Kitchen #7".
+ */
+export function describeDocument(document: PrintDocument): string {
+  switch (document.documentType) {
+    case 'creditNote':
+      return `Credit note ${document.invNumber ?? ''}`.trim();
+    case 'kitchenTicket':
+      return `Kitchen #${document.orderNumber}`;
+    case 'cashIn':
+      return `Cash in ${document.amount}`;
+    case 'cashOut':
+      return `Cash out ${document.amount}`;
+    default:
+      return `Invoice ${document.invNumber ?? ''}`.trim();
+  }
+}
@@ -1,3 +1,5 @@
+import { QRErrorCorrectionLevel } from './qrImage';
+
 /**
  * Sets the text size for all subsequent text.
  * Level: 1 = largest, 2 = double, else = normal.
@@ -14,38 +16,104 @@ export function setTextSize(level: number): string {
   }
 }
 
+export type Symbology2D = 'QR' | 'PDF417' | 'DataMatrix';
+
+// Most bytes a model 2 QR code holds (version 40) per error correction level.
+export const QR_BYTE_CAPACITY: Record<QRErrorCorrectionLevel, number> = { L: 2953, M: 2331, Q: 1663, H: 1273 };
+
+// Most bytes of an ECC 200 DataMatrix (144 x 144).
+export const DATA_MATRIX_BYTE_CAPACITY = 1556;
+
+/**
+ * Most bytes a PDF417 symbol holds at an error correction level (0-8): of the
+ * 928 codewords, 2^(level + 1) go to error correction, one to the length and
+ * one to the byte mode latch; byte mode packs 6 bytes into 5 codewords.
+ */
+export function pdf417ByteCapacity(errorLevel: number): number {
+  const dataCodewords = 928 - Math.pow(2, errorLevel + 1) - 2;
+  return Math.floor((dataCodewords * 6) / 5);
+}
+
+/**
+ * Checks that data of the given length in bytes fits a 2D symbology.
+ * Returns the problem, or null when it fits.
+ */
+export function symbolCapacityError(
+  symbology: Symbology2D,
+  byteLength: number,
+  options: { errorCorrection?: QRErrorCorrectionLevel; errorLevel?: number } = {},
+): string | null {
+  let capacity: number;
+  switch (symbology) {
+    case 'QR':
+      capacity = QR_BYTE_CAPACITY[options.errorCorrection ?? 'L'];
+      break;
+    case 'PDF417':
+      capacity = pdf417ByteCapacity(options.errorLevel ?? 1);
+      break;
+    case 'DataMatrix':
+      capacity = DATA_MATRIX_BYTE_CAPACITY;
+      break;
+  }
+  if (byteLength === 0) {
+    return `${symbology} data is empty`;
+  }
+  return byteLength > capacity ? `${symbology} holds at most ${capacity} bytes, got ${byteLength}` : null;
+}
+
+/**
+ * Returns the GS ( k commands that store data in the symbol of symbology cn
+ * (0x30 PDF417, 0x31 QR, 0x36 DataMatrix) and print it.
+ * @param data The data, one byte per char.
+ */
+export function storeAndPrintSymbol(cn: number, data: string): string {
+  const storeLen = data.length + 3;
+  const pL = String.fromCharCode(storeLen & 0xff);
+  const pH = String.fromCharCode((storeLen >> 8) & 0xff);
+  const c = String.fromCharCode(cn);
+  return '\x1D\x28\x6B' + pL + pH + c + '\x50\x30' + data + '\x1D\x28\x6B\x03\x00' + c + '\x51\x30';
+}
+
 /**
- * Returns ESC/POS commands to print a QR code for the provided data.
- * @param data The data to encode in the QR code.
- * @param moduleSize The module size (scaling factor). Default is 4.
+ * Returns the commands for a model 2 QR code, without alignment.
+ * @param data The data to encode, one byte per char.
+ * @param moduleSize The module size in dots, 1-16.
+ * @param errorCorrection Error correction level. Default is L.
+ * Throws when the data does not fit a QR code at that level.
  */
-export function printQRCode(data: string, moduleSize: number = 4): string {
-  // Clamp moduleSize between 1 and 8
-  const size = Math.max(1, Math.min(moduleSize, 8));
-  
+export function qrCodeSymbol(data: string, moduleSize: number, errorCorrection: QRErrorCorrectionLevel = 'L'): string {
+  const error = symbolCapacityError('QR', data.length, { errorCorrection });
+  if (error) {
+    throw new Error(error);
+  }
+  const size = Math.max(1, Math.min(Math.floor(moduleSize), 16));
+
   // Set QR code model to 2
   const modelCommand = '\x1D\x28\x6B\x04\x00\x31\x41\x32\x00';
-  
+
   // Set module size
   const sizeCommand = '\x1D\x28\x6B\x03\x00\x31\x43' + String.fromCharCode(size);
-  
-  // Set error correction level to 51 (adjust as needed)
-  const errorCommand = '\x1D\x28\x6B\x03\x00\x31\x45' + String.fromCharCode(48);
-  
-  // Store the data in the symbol
-  const storeLen = data.length + 3;
-  const pL = String.fromCharCode(storeLen & 0xff);
-  const pH = String.fromCharCode((storeLen >> 8) & 0xff);
-  const storeCommand = '\x1D\x28\x6B' + pL + pH + '\x31\x50\x30' + data;
-  
-  // Print the QR code
-  const printCommand = '\x1D\x28\x6B\x03\x00\x31\x51\x30';
 
-  // Use center alignment for QR code printing
-  const centerOn = '\x1B\x61\x01';
-  const centerOff = '\x1B\x61\x00';
+  // Set error correction level (48 = L ... 51 = H)
+  const errorCommand = '\x1D\x28\x6B\x03\x00\x31\x45' + String.fromCharCode(48 + 'LMQH'.indexOf(errorCorrection));
+
+  return modelCommand + sizeCommand + errorCommand + storeAndPrintSymbol(0x31, data);
+}
 
-  return centerOn + modelCommand + sizeCommand + errorCommand + storeCommand + printCommand + centerOff;
+/**
+ * Returns ESC/POS commands to print a QR code for the provided data, centered.
+ * @param data The data to encode in the QR code, one byte per char.
+ * @param moduleSize The module size (scaling factor), 1-8. Default is 4.
+ * @param errorCorrection Error correction level. Default is L.
+ * Throws when the data does not fit a QR code at that level.
+ */
+export function printQRCode(
+  data: string,
+  moduleSize: number = 4,
+  errorCorrection: QRErrorCorrectionLevel = 'L',
+): string {
+  // Use center alignment for QR code printing
+  return '\x1B\x61\x01' + qrCodeSymbol(data, Math.min(moduleSize, 8), errorCorrection) + '\x1B\x61\x00';
 }
 
 /**
@@ -58,16 +126,93 @@ export function addBreaks(n: number): string {
 /**
  * Returns ESC/POS command to set center alignment.
  */
-export function centerText(width: number): string {
-  // This command sets alignment to center.
+export function centerText(): string {
   return '\x1B\x61\x01';
 }
 
 /**
- * Returns ESC/POS commands to print text in bold.
+ * Returns ESC/POS commands to turn bold on (default) or off.
+ */
+export function boldText(on: boolean = true): string {
+  return '\x1B\x45' + String.fromCharCode(on ? 1 : 0);
+}
+
+/**
+ * Returns ESC/POS underline (ESC -): 1 or 2 dots thick, 0 for off.
+ */
+export function underlineText(thickness: 0 | 1 | 2 = 1): string {
+  return '\x1B\x2D' + String.fromCharCode(thickness);
+}
+
+/**
+ * Returns ESC/POS white-on-black printing on (default) or off (GS B).
+ */
+export function inverseText(on: boolean = true): string {
+  return '\x1D\x42' + String.fromCharCode(on ? 1 : 0);
+}
+
+// Font A is 12 x 24 dots, font B 9 x 17 (more characters per line).
+export type Font = 'A' | 'B';
+
+/**
+ * Returns ESC/POS font selection (ESC M).
+ */
+export function selectFont(font: Font): string {
+  return '\x1B\x4D' + String.fromCharCode(font === 'B' ? 1 : 0);
+}
+
+/**
+ * Returns ESC/POS upside-down printing on (default) or off (ESC {).
+ */
+export function upsideDownText(on: boolean = true): string {
+  return '\x1B\x7B' + String.fromCharCode(on ? 1 : 0);
+}
+
+/**
+ * Returns ESC/POS character size (GS !) with independent width and height
+ * multipliers, 1-8 each.
  */
-export function boldText(): string {
-  return '\x1B\x45\x01';
+export function setCharacterSize(width: number, height: number = width): string {
+  const w = Math.max(1, Math.min(8, Math.floor(width)));
+  const h = Math.max(1, Math.min(8, Math.floor(height)));
+  return '\x1D\x21' + String.fromCharCode(((w - 1) << 4) | (h - 1));
+}
+
+export interface TextStyleOptions {
+  bold?: boolean;
+  underline?: 0 | 1 | 2;
+  inverse?: boolean;
+  font?: Font;
+  upsideDown?: boolean;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Returns the commands for every style set in options, so styles compose:
+ * textStyle({ bold: true, underline: 2, width: 2 }). Unset styles are left as they are.
+ */
+export function textStyle(options: TextStyleOptions): string {
+  let commands = '';
+  if (options.bold != null) {
+    commands += boldText(options.bold);
+  }
+  if (options.underline != null) {
+    commands += underlineText(options.underline);
+  }
+  if (options.inverse != null) {
+    commands += inverseText(options.inverse);
+  }
+  if (options.font != null) {
+    commands += selectFont(options.font);
+  }
+  if (options.upsideDown != null) {
+    commands += upsideDownText(options.upsideDown);
+  }
+  if (options.width != null || options.height != null) {
+    commands += setCharacterSize(options.width ?? 1, options.height ?? 1);
+  }
+  return commands;
 }
 
 /**
@@ -85,7 +230,9 @@ export function rightAlignText(): string {
 }
 
 /**
- * Returns ESC/POS command to reset the printer.
+ * Returns ESC/POS command to reset the printer (ESC @).
+ * This also clears the code page and every other setting; to end a style
+ * use the builder's resetStyle() instead.
  */
 export function reset(): string {
   return '\x1B\x40';
@@ -101,3 +248,231 @@ export function leftRightText(left: string, right: string, totalWidth: number =
   const spaces = spacesCount > 0 ? " ".repeat(spacesCount) : "";
   return left + spaces + right;
 }
+
+/**
+ * Returns ESC/POS command to select a character code table (ESC t n).
+ */
+export function selectCodePage(table: number): string {
+  return '\x1B\x74' + String.fromCharCode(table & 0xff);
+}
+
+/**
+ * Returns ESC/POS real-time status request (DLE EOT n).
+ * n: 1 = printer, 2 = offline cause, 3 = error cause, 4 = paper roll sensor.
+ * The printer answers with one status byte, even while it is busy.
+ */
+export function transmitStatus(n: number): string {
+  return '\x10\x04' + String.fromCharCode(n & 0xff);
+}
+
+export type CutMode = 'full' | 'partial';
+
+/**
+ * Returns ESC/POS paper cut (GS V). With feed, the printer first feeds that
+ * many dots so the last printed line clears the cutter.
+ */
+export function cutPaper(mode: CutMode = 'full', feed?: number): string {
+  const m = mode === 'partial' ? 1 : 0;
+  if (feed == null) {
+    return '\x1D\x56' + String.fromCharCode(m);
+  }
+  return '\x1D\x56' + String.fromCharCode(65 + m) + String.fromCharCode(Math.max(0, Math.min(255, Math.floor(feed))));
+}
+
+// Drawer kick-out connector pin the cash drawer is wired to.
+export type DrawerPin = 2 | 5;
+
+export interface DrawerPulse {
+  pin: DrawerPin;
+  // Pulse on and off times in ms, sent in 2 ms units (at most 510). Defaults are 100 and 200.
+  onTime?: number;
+  offTime?: number;
+}
+
+/**
+ * Returns ESC/POS cash drawer kick (ESC p m t1 t2).
+ */
+export function openCashDrawer(pulse: DrawerPulse = { pin: 2 }): string {
+  const units = (ms: number) => String.fromCharCode(Math.max(1, Math.min(255, Math.round(ms / 2))));
+  return '\x1B\x70' + String.fromCharCode(pulse.pin === 5 ? 1 : 0) + units(pulse.onTime ?? 100) + units(pulse.offTime ?? 200);
+}
+
+export type BarcodeSymbology = 'CODE128' | 'EAN13' | 'CODE39';
+
+// Where the human readable digits print (HRI): GS H 0-3.
+export type BarcodeTextPosition = 'none' | 'above' | 'below' | 'both';
+
+export const BARCODE_SYMBOLOGIES: BarcodeSymbology[] = ['CODE128', 'EAN13', 'CODE39'];
+
+export const BARCODE_TEXT_POSITIONS: BarcodeTextPosition[] = ['none', 'above', 'below', 'both'];
+
+export interface BarcodeOptions {
+  // Bar height in dots, 1-255. Default is 80.
+  height?: number;
+  // Narrow bar width in dots, 2-6. Default is 2.
+  width?: number;
+  // Default is 'below'.
+  text?: BarcodeTextPosition;
+}
+
+/**
+ * Returns the EAN-13 check digit of the first 12 digits.
+ */
+export function ean13CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Checks data against a symbology's characters and length.
+ * Returns the problem, or null when the data can be encoded.
+ */
+export function barcodeDataError(symbology: BarcodeSymbology, data: string): string | null {
+  switch (symbology) {
+    case 'EAN13':
+      if (!/^\d{12,13}$/.test(data)) {
+        return 'EAN-13 needs 12 or 13 digits';
+      }
+      if (data.length === 13 && Number(data[12]) !== ean13CheckDigit(data)) {
+        return 'EAN-13 check digit is wrong';
+      }
+      return null;
+    case 'CODE39':
+      if (!/^[0-9A-Z .$/+%-]{1,255}$/.test(data)) {
+        return 'CODE39 takes 1-255 characters of 0-9, A-Z, space and - . $ / + %';
+      }
+      return null;
+    case 'CODE128':
+      // Code set B, plus the "{B" prefix and "{" escaped as "{{" must fit in 255 bytes.
+      if (!/^[\x20-\x7e]+$/.test(data) || data.length + (data.match(/\{/g)?.length ?? 0) > 253) {
+        return 'CODE128 takes 1-253 printable ASCII characters';
+      }
+      return null;
+  }
+}
+
+/**
+ * Returns ESC/POS commands to print a 1D barcode (GS h, GS w, GS H, GS k).
+ * Throws when the data does not fit the symbology; see barcodeDataError.
+ */
+export function printBarcode(symbology: BarcodeSymbology, data: string, options: BarcodeOptions = {}): string {
+  const error = barcodeDataError(symbology, data);
+  if (error) {
+    throw new Error(error);
+  }
+  const height = Math.max(1, Math.min(255, Math.floor(options.height ?? 80)));
+  const width = Math.max(2, Math.min(6, Math.floor(options.width ?? 2)));
+  const text = BARCODE_TEXT_POSITIONS.indexOf(options.text ?? 'below');
+  let command: string;
+  switch (symbology) {
+    case 'EAN13':
+      // The printer adds the check digit itself.
+      command = '\x43' + '\x0C' + data.substring(0, 12);
+      break;
+    case 'CODE39':
+      command = '\x45' + String.fromCharCode(data.length) + data;
+      break;
+    case 'CODE128': {
+      const encoded = '{B' + data.replace(/\{/g, '{{');
+      command = '\x49' + String.fromCharCode(encoded.length) + encoded;
+      break;
+    }
+  }
+  return (
+    '\x1D\x68' + String.fromCharCode(height) +
+    '\x1D\x77' + String.fromCharCode(width) +
+    '\x1D\x48' + String.fromCharCode(text) +
+    '\x1D\x6B' + command
+  );
+}
+
+/**
+ * A 1-bit image: one byte per pixel, row by row, 1 = black dot.
+ */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Converts bytes to the one-char-per-byte strings the other commands use.
+ */
+function bytesToString(bytes: ArrayLike<number>): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i] & 0xff);
+  }
+  return result;
+}
+
+/**
+ * Returns the GS v 0 raster bands for a bitmap, without alignment.
+ * Tall images are split into bands so printers with small buffers keep up.
+ * @param bitmap The monochrome image; rows are padded to whole bytes.
+ * @param bandHeight Maximum rows per GS v 0 command. Default is 128.
+ */
+export function rasterImageBands(bitmap: MonochromeBitmap, bandHeight: number = 128): string {
+  const bytesPerRow = Math.ceil(bitmap.width / 8);
+  const rowsPerBand = Math.max(1, Math.min(bandHeight, 0xffff));
+  let commands = '';
+  for (let top = 0; top < bitmap.height; top += rowsPerBand) {
+    const rows = Math.min(rowsPerBand, bitmap.height - top);
+    const band = new Uint8Array(bytesPerRow * rows);
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < bitmap.width; x++) {
+        if (bitmap.data[(top + y) * bitmap.width + x]) {
+          band[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
+    }
+    commands +=
+      '\x1D\x76\x30\x00' +
+      bytesToString([bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff, rows & 0xff, (rows >> 8) & 0xff]) +
+      bytesToString(band);
+  }
+  return commands;
+}
+
+/**
+ * Returns ESC/POS commands to print a bitmap as GS v 0 raster bands, centered.
+ * See rasterImageBands.
+ */
+export function printRasterImage(bitmap: MonochromeBitmap, bandHeight: number = 128): string {
+  return '\x1B\x61\x01' + rasterImageBands(bitmap, bandHeight) + '\x1B\x61\x00';
+}
+
+/**
+ * Returns ESC * bit-image bands (24-dot double density) for a bitmap, for
+ * printers without GS v 0, without alignment.
+ */
+export function bitImageBands(bitmap: MonochromeBitmap): string {
+  const width = Math.min(bitmap.width, 0xffff);
+  // Line spacing of 24 dots so the bands touch.
+  let commands = '\x1B\x33\x18';
+  for (let top = 0; top < bitmap.height; top += 24) {
+    const band = new Uint8Array(width * 3);
+    for (let x = 0; x < width; x++) {
+      for (let bit = 0; bit < 24; bit++) {
+        const y = top + bit;
+        if (y < bitmap.height && bitmap.data[y * bitmap.width + x]) {
+          band[x * 3 + (bit >> 3)] |= 0x80 >> (bit & 7);
+        }
+      }
+    }
+    commands += '\x1B\x2A\x21' + bytesToString([width & 0xff, (width >> 8) & 0xff]) + bytesToString(band) + '\n';
+  }
+  // Restore the default line spacing.
+  return commands + '\x1B\x32';
+}
+
+/**
+ * Returns ESC/POS commands to print a bitmap as ESC * bit-image bands, centered.
+ * See bitImageBands.
+ */
+export function printBitImage(bitmap: MonochromeBitmap): string {
+  return '\x1B\x61\x01' + bitImageBands(bitmap) + '\x1B\x61\x00';
+}
@@ -0,0 +1,317 @@
+// escposBuilder.ts
+import { Buffer } from 'buffer';
+import { CODE_PAGES, CodePageName, DEFAULT_CODE_PAGE, encodeText } from './codePages';
+import {
+  BarcodeOptions,
+  BarcodeSymbology,
+  bitImageBands,
+  cutPaper,
+  DrawerPulse,
+  Font,
+  MonochromeBitmap,
+  openCashDrawer,
+  printBarcode,
+  qrCodeSymbol,
+  rasterImageBands,
+  storeAndPrintSymbol,
+  symbolCapacityError,
+} from './escpos-commands';
+import { QRErrorCorrectionLevel } from './qrImage';
+
+export type Alignment = 'left' | 'center' | 'right';
+
+export interface QROptions {
+  // Module size in dots, 1-16. Default is 4.
+  size?: number;
+  errorCorrection?: QRErrorCorrectionLevel;
+}
+
+export interface PDF417Options {
+  // Module width in dots, 2-8. Default is 3.
+  moduleWidth?: number;
+  // Row height as a multiple of the module width, 2-8. Default is 3.
+  rowHeight?: number;
+  // Error correction level 0-8. Default is 1.
+  errorLevel?: number;
+  // Data columns, 1-30; 0 lets the printer choose. Default is 0.
+  columns?: number;
+}
+
+export interface DataMatrixOptions {
+  // Module size in dots, 2-16. Default is 4.
+  size?: number;
+}
+
+export interface DocumentOptions {
+  codePage?: CodePageName;
+}
+
+/**
+ * Style state the builder tracks so it only emits commands on change and
+ * can return to defaults without ESC @ (which also clears the code page).
+ */
+export interface DocumentStyle {
+  align: Alignment;
+  bold: boolean;
+  underline: 0 | 1 | 2;
+  // White on black (GS B).
+  inverse: boolean;
+  font: Font;
+  // Rotated 180 degrees (ESC {).
+  upsideDown: boolean;
+  width: number;
+  height: number;
+}
+
+export interface EscPosDocument {
+  readonly style: Readonly<DocumentStyle>;
+  readonly codePageName: CodePageName;
+  // ESC @ followed by the code page selection; resets tracked state.
+  init(): EscPosDocument;
+  codePage(name: CodePageName): EscPosDocument;
+  align(align: Alignment): EscPosDocument;
+  bold(on: boolean): EscPosDocument;
+  underline(thickness: 0 | 1 | 2 | boolean): EscPosDocument;
+  inverse(on: boolean): EscPosDocument;
+  font(font: Font): EscPosDocument;
+  upsideDown(on: boolean): EscPosDocument;
+  // Character scaling, 1-8 in each direction.
+  size(width: number, height?: number): EscPosDocument;
+  // Turns every style back to its default with explicit commands.
+  resetStyle(): EscPosDocument;
+  // Text is encoded for the current code page; "\n" becomes a line feed.
+  text(text: string): EscPosDocument;
+  line(text?: string): EscPosDocument;
+  feed(lines?: number): EscPosDocument;
+  // The 2D codes store their data as UTF-8 and throw when it does not fit the symbol.
+  qr(data: string, options?: QROptions): EscPosDocument;
+  pdf417(data: string, options?: PDF417Options): EscPosDocument;
+  dataMatrix(data: string, options?: DataMatrixOptions): EscPosDocument;
+  // GS k 1D barcode; throws when the data does not fit the symbology.
+  barcode(symbology: BarcodeSymbology, data: string, options?: BarcodeOptions): EscPosDocument;
+  // GS v 0 raster image, split into bands of bandHeight rows.
+  raster(bitmap: MonochromeBitmap, bandHeight?: number): EscPosDocument;
+  // ESC * 24-dot bit image, for printers without GS v 0.
+  bitImage(bitmap: MonochromeBitmap): EscPosDocument;
+  // GS V cut; with feed, the printer first feeds that many dots past the cutter.
+  cut(partial?: boolean, feed?: number): EscPosDocument;
+  // ESC p pulse that kicks the cash drawer open.
+  drawer(pulse?: DrawerPulse): EscPosDocument;
+  // Appends bytes as they are; strings are taken as one byte per char.
+  raw(data: string | ArrayLike<number>): EscPosDocument;
+  build(): Uint8Array;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const DEFAULT_STYLE: DocumentStyle = {
+  align: 'left',
+  bold: false,
+  underline: 0,
+  inverse: false,
+  font: 'A',
+  upsideDown: false,
+  width: 1,
+  height: 1,
+};
+
+const ALIGN_CODES: Record<Alignment, number> = { left: 0, center: 1, right: 2 };
+
+const checkCapacity = (error: string | null) => {
+  if (error) {
+    throw new Error(error);
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.floor(value)));
+
+/**
+ * Creates an ESC/POS document builder. Calls chain and the result is the
+ * exact byte sequence to send to the printer:
+ *
+ *   createEscPosDocument().init().align('center').bold(true).line('Title').feed(4).cut().build()
+ */
+export function createEscPosDocument(options: DocumentOptions = {}): EscPosDocument {
+  const bytes: number[] = [];
+  let style: DocumentStyle = { ...DEFAULT_STYLE };
+  let codePage: CodePageName = options.codePage ?? DEFAULT_CODE_PAGE;
+
+  const push = (...values: number[]) => {
+    values.forEach(v => bytes.push(v & 0xff));
+  };
+
+  const doc: EscPosDocument = {
+    get style() {
+      return style;
+    },
+
+    get codePageName() {
+      return codePage;
+    },
+
+    init() {
+      push(ESC, 0x40);
+      style = { ...DEFAULT_STYLE };
+      push(ESC, 0x74, CODE_PAGES[codePage].table);
+      return doc;
+    },
+
+    codePage(name) {
+      codePage = name;
+      push(ESC, 0x74, CODE_PAGES[name].table);
+      return doc;
+    },
+
+    align(align) {
+      if (style.align !== align) {
+        push(ESC, 0x61, ALIGN_CODES[align]);
+        style = { ...style, align };
+      }
+      return doc;
+    },
+
+    bold(on) {
+      if (style.bold !== on) {
+        push(ESC, 0x45, on ? 1 : 0);
+        style = { ...style, bold: on };
+      }
+      return doc;
+    },
+
+    underline(thickness) {
+      const value = thickness === true ? 1 : thickness === false ? 0 : thickness;
+      if (style.underline !== value) {
+        push(ESC, 0x2d, value);
+        style = { ...style, underline: value };
+      }
+      return doc;
+    },
+
+    inverse(on) {
+      if (style.inverse !== on) {
+        push(GS, 0x42, on ? 1 : 0);
+        style = { ...style, inverse: on };
+      }
+      return doc;
+    },
+
+    font(font) {
+      if (style.font !== font) {
+        push(ESC, 0x4d, font === 'B' ? 1 : 0);
+        style = { ...style, font };
+      }
+      return doc;
+    },
+
+    upsideDown(on) {
+      if (style.upsideDown !== on) {
+        push(ESC, 0x7b, on ? 1 : 0);
+        style = { ...style, upsideDown: on };
+      }
+      return doc;
+    },
+
+    size(width, height = width) {
+      const w = clamp(width, 1, 8);
+      const h = clamp(height, 1, 8);
+      if (style.width !== w || style.height !== h) {
+        push(GS, 0x21, ((w - 1) << 4) | (h - 1));
+        style = { ...style, width: w, height: h };
+      }
+      return doc;
+    },
+
+    resetStyle() {
+      return doc.bold(false).underline(0).inverse(false).font('A').upsideDown(false).size(1, 1).align('left');
+    },
+
+    text(text) {
+      const encoded = encodeText(text, codePage);
+      for (let i = 0; i < encoded.length; i++) {
+        bytes.push(encoded.charCodeAt(i) & 0xff);
+      }
+      return doc;
+    },
+
+    line(text = '') {
+      doc.text(text);
+      push(LF);
+      return doc;
+    },
+
+    feed(lines = 1) {
+      push(ESC, 0x64, clamp(lines, 0, 255));
+      return doc;
+    },
+
+    qr(data, qrOptions = {}) {
+      // QR payloads are UTF-8, independent of the text code page.
+      const payload = Buffer.from(data, 'utf8').toString('latin1');
+      return doc.raw(qrCodeSymbol(payload, qrOptions.size ?? 4, qrOptions.errorCorrection ?? 'L'));
+    },
+
+    pdf417(data, pdfOptions = {}) {
+      const moduleWidth = clamp(pdfOptions.moduleWidth ?? 3, 2, 8);
+      const errorLevel = clamp(pdfOptions.errorLevel ?? 1, 0, 8);
+      const payload = Buffer.from(data, 'utf8').toString('latin1');
+      checkCapacity(symbolCapacityError('PDF417', payload.length, { errorLevel }));
+      // Columns, rows (automatic), module width, row height, error correction level, standard symbol.
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x30, 0x41, clamp(pdfOptions.columns ?? 0, 0, 30));
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x30, 0x42, 0);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x30, 0x43, moduleWidth);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x30, 0x44, clamp(pdfOptions.rowHeight ?? 3, 2, 8));
+      push(GS, 0x28, 0x6b, 0x04, 0x00, 0x30, 0x45, 0x30, 0x30 + errorLevel);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x30, 0x46, 0);
+      return doc.raw(storeAndPrintSymbol(0x30, payload));
+    },
+
+    dataMatrix(data, matrixOptions = {}) {
+      const payload = Buffer.from(data, 'utf8').toString('latin1');
+      checkCapacity(symbolCapacityError('DataMatrix', payload.length));
+      // Square symbol of automatic size, module size.
+      push(GS, 0x28, 0x6b, 0x05, 0x00, 0x36, 0x42, 0x00, 0x00, 0x00);
+      push(GS, 0x28, 0x6b, 0x03, 0x00, 0x36, 0x43, clamp(matrixOptions.size ?? 4, 2, 16));
+      return doc.raw(storeAndPrintSymbol(0x36, payload));
+    },
+
+    barcode(symbology, data, barcodeOptions) {
+      return doc.raw(printBarcode(symbology, data, barcodeOptions));
+    },
+
+    raster(bitmap, bandHeight = 128) {
+      return doc.raw(rasterImageBands(bitmap, bandHeight));
+    },
+
+    bitImage(bitmap) {
+      return doc.raw(bitImageBands(bitmap));
+    },
+
+    cut(partial = false, feed) {
+      return doc.raw(cutPaper(partial ? 'partial' : 'full', feed));
+    },
+
+    drawer(pulse) {
+      return doc.raw(openCashDrawer(pulse));
+    },
+
+    raw(data) {
+      if (typeof data === 'string') {
+        for (let i = 0; i < data.length; i++) {
+          bytes.push(data.charCodeAt(i) & 0xff);
+        }
+      } else {
+        for (let i = 0; i < data.length; i++) {
+          bytes.push(data[i] & 0xff);
+        }
+      }
+      return doc;
+    },
+
+    build() {
+      return Uint8Array.from(bytes);
+    },
+  };
+  return doc;
+}
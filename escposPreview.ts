@@ -0,0 +1,565 @@
+// escposPreview.ts
+import { CODE_PAGES, CodePageName, DEFAULT_CODE_PAGE } from './codePages';
+import { MonochromeBitmap } from './escpos-commands';
+import { Alignment } from './escposBuilder';
+
+export interface TextStyle {
+  bold: boolean;
+  // Underline thickness in dots (0 = off).
+  underline: number;
+  inverse: boolean;
+  font: 'A' | 'B';
+  // Character scaling from GS ! / ESC !, 1-8.
+  width: number;
+  height: number;
+  upsideDown: boolean;
+}
+
+export interface PreviewSegment {
+  text: string;
+  style: TextStyle;
+}
+
+export type PreviewBlock =
+  | { type: 'text'; align: Alignment; segments: PreviewSegment[] }
+  | { type: 'image'; align: Alignment; bitmap: MonochromeBitmap }
+  | { type: 'code'; align: Alignment; symbology: string; data: string }
+  | { type: 'cut'; partial: boolean }
+  | { type: 'drawer'; pin: number };
+
+export interface ReceiptPreview {
+  // Line width in characters (font A, normal size).
+  width: number;
+  blocks: PreviewBlock[];
+}
+
+export interface PreviewOptions {
+  width?: number;
+  // Code page in effect before any ESC t (the printer's power-on table).
+  codePage?: CodePageName;
+}
+
+const DEFAULT_STYLE: TextStyle = {
+  bold: false,
+  underline: 0,
+  inverse: false,
+  font: 'A',
+  width: 1,
+  height: 1,
+  upsideDown: false,
+};
+
+const BARCODE_NAMES: Record<number, string> = {
+  65: 'UPC-A',
+  66: 'UPC-E',
+  67: 'EAN-13',
+  68: 'EAN-8',
+  69: 'CODE39',
+  70: 'ITF',
+  71: 'CODABAR',
+  72: 'CODE93',
+  73: 'CODE128',
+};
+
+const SYMBOLOGY_NAMES: Record<number, string> = {
+  48: 'PDF417',
+  49: 'QR',
+  54: 'DataMatrix',
+};
+
+// ESC commands whose parameters are simply skipped, by parameter byte count.
+const ESC_PARAMS: Record<number, number> = {
+  0x20: 1, // ESC SP  right-side spacing
+  0x24: 2, // ESC $   absolute position
+  0x25: 1, // ESC %   user-defined chars
+  0x32: 0, // ESC 2   default line spacing
+  0x33: 1, // ESC 3   line spacing
+  0x3d: 1, // ESC =   peripheral select
+  0x4a: 1, // ESC J   feed dots
+  0x4c: 0, // ESC L   page mode
+  0x52: 1, // ESC R   international set
+  0x53: 0, // ESC S   standard mode
+  0x55: 1, // ESC U   unidirectional
+  0x56: 1, // ESC V   rotate
+  0x5c: 2, // ESC \   relative position
+  0x63: 2, // ESC c   panel/sensor options
+  0x66: 2, // ESC f   flag wait
+};
+
+// GS commands whose parameters are simply skipped, by parameter byte count.
+const GS_PARAMS: Record<number, number> = {
+  0x48: 1, // GS H    HRI position
+  0x4c: 2, // GS L    left margin
+  0x50: 2, // GS P    motion units
+  0x57: 2, // GS W    print area width
+  0x61: 1, // GS a    status back
+  0x62: 1, // GS b    smoothing
+  0x66: 1, // GS f    HRI font
+  0x68: 1, // GS h    barcode height
+  0x72: 1, // GS r    status request
+  0x77: 1, // GS w    barcode width
+};
+
+function toBytes(input: string | Uint8Array | number[]): Uint8Array {
+  if (typeof input !== 'string') {
+    return Uint8Array.from(input);
+  }
+  const bytes = new Uint8Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    bytes[i] = input.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function alignmentFor(n: number): Alignment {
+  const value = n >= 48 ? n - 48 : n;
+  return value === 1 ? 'center' : value === 2 ? 'right' : 'left';
+}
+
+function codePageForTable(table: number): CodePageName | null {
+  const entry = (Object.keys(CODE_PAGES) as CodePageName[]).find(name => CODE_PAGES[name].table === table);
+  return entry ?? null;
+}
+
+/**
+ * Interprets an ESC/POS byte stream (or byte string) into a receipt model:
+ * text lines with alignment and styling, images, 2D/1D codes, cuts and
+ * drawer kicks. Unknown commands are skipped.
+ */
+export function interpretEscPos(input: string | Uint8Array | number[], options: PreviewOptions = {}): ReceiptPreview {
+  const bytes = toBytes(input);
+  const width = options.width ?? 48;
+  const defaultCodePage = options.codePage ?? DEFAULT_CODE_PAGE;
+  const blocks: PreviewBlock[] = [];
+
+  let style: TextStyle = { ...DEFAULT_STYLE };
+  let align: Alignment = 'left';
+  let codePage = defaultCodePage;
+  let lineAlign: Alignment = align;
+  let segments: PreviewSegment[] = [];
+  // Data stored with GS ( k fn 80, per symbology.
+  const stored: Record<number, string> = {};
+  // ESC * bands are collected into one image until other output arrives.
+  let bitImageRows: Uint8Array[] = [];
+  let bitImageWidth = 0;
+
+  const lineIsEmpty = () => segments.length === 0;
+
+  const appendText = (text: string) => {
+    if (lineIsEmpty()) {
+      lineAlign = align;
+    }
+    const last = segments[segments.length - 1];
+    if (last && JSON.stringify(last.style) === JSON.stringify(style)) {
+      last.text += text;
+    } else {
+      segments.push({ text, style: { ...style } });
+    }
+  };
+
+  const flushBitImage = () => {
+    if (bitImageRows.length === 0) {
+      return;
+    }
+    const data = new Uint8Array(bitImageWidth * bitImageRows.length);
+    bitImageRows.forEach((row, y) => data.set(row.subarray(0, bitImageWidth), y * bitImageWidth));
+    blocks.push({ type: 'image', align, bitmap: { width: bitImageWidth, height: bitImageRows.length, data } });
+    bitImageRows = [];
+    bitImageWidth = 0;
+  };
+
+  // Prints the line buffer, breaking it where the printer would wrap.
+  const commitLine = () => {
+    flushBitImage();
+    if (lineIsEmpty()) {
+      blocks.push({ type: 'text', align, segments: [] });
+      return;
+    }
+    let current: PreviewSegment[] = [];
+    let used = 0;
+    segments.forEach(segment => {
+      const charWidth = segment.style.width * (segment.style.font === 'B' ? 0.75 : 1);
+      let text = segment.text;
+      while (text.length > 0) {
+        if (used > 0 && width - used < charWidth) {
+          blocks.push({ type: 'text', align: lineAlign, segments: current });
+          current = [];
+          used = 0;
+        }
+        const fit = Math.max(1, Math.floor((width - used) / charWidth + 1e-9));
+        const part = text.slice(0, fit);
+        current.push({ text: part, style: segment.style });
+        used += part.length * charWidth;
+        text = text.slice(part.length);
+      }
+    });
+    blocks.push({ type: 'text', align: lineAlign, segments: current });
+    segments = [];
+  };
+
+  const feedLines = (n: number) => {
+    if (!lineIsEmpty()) {
+      commitLine();
+      n -= 1;
+    }
+    for (let i = 0; i < n; i++) {
+      commitLine();
+    }
+  };
+
+  const decodeChar = (byte: number): string => {
+    if (byte < 0x80) {
+      return String.fromCharCode(byte);
+    }
+    const char = CODE_PAGES[codePage].upper[byte - 0x80];
+    return char === '\u0000' ? '?' : char;
+  };
+
+  const byteString = (from: number, to: number): string => {
+    let result = '';
+    for (let j = from; j < Math.min(to, bytes.length); j++) {
+      result += String.fromCharCode(bytes[j]);
+    }
+    return result;
+  };
+
+  const emitBlock = (block: PreviewBlock) => {
+    if (!lineIsEmpty()) {
+      commitLine();
+    }
+    flushBitImage();
+    blocks.push(block);
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte === 0x0a) {
+      commitLine();
+      i += 1;
+    } else if (byte === 0x0d) {
+      i += 1;
+    } else if (byte === 0x09) {
+      appendText(' ');
+      i += 1;
+    } else if (byte === 0x10) {
+      // DLE EOT n / DLE ENQ n real-time requests.
+      i += 3;
+    } else if (byte === 0x1b) {
+      const cmd = bytes[i + 1];
+      const n = bytes[i + 2] ?? 0;
+      switch (cmd) {
+        case 0x40: // ESC @
+          style = { ...DEFAULT_STYLE };
+          align = 'left';
+          codePage = defaultCodePage;
+          i += 2;
+          break;
+        case 0x61: // ESC a
+          align = alignmentFor(n);
+          i += 3;
+          break;
+        case 0x45: // ESC E
+        case 0x47: // ESC G
+          style.bold = (n & 1) === 1;
+          i += 3;
+          break;
+        case 0x2d: // ESC -
+          style.underline = n >= 48 ? n - 48 : n;
+          i += 3;
+          break;
+        case 0x4d: // ESC M
+          style.font = (n & 1) === 1 ? 'B' : 'A';
+          i += 3;
+          break;
+        case 0x21: // ESC !
+          style.font = n & 0x01 ? 'B' : 'A';
+          style.bold = (n & 0x08) !== 0;
+          style.height = n & 0x10 ? 2 : 1;
+          style.width = n & 0x20 ? 2 : 1;
+          style.underline = n & 0x80 ? 1 : 0;
+          i += 3;
+          break;
+        case 0x7b: // ESC {
+          style.upsideDown = (n & 1) === 1;
+          i += 3;
+          break;
+        case 0x74: // ESC t
+          codePage = codePageForTable(n) ?? codePage;
+          i += 3;
+          break;
+        case 0x64: // ESC d
+          feedLines(n);
+          i += 3;
+          break;
+        case 0x70: // ESC p m t1 t2
+          emitBlock({ type: 'drawer', pin: (n & 1) === 1 ? 5 : 2 });
+          i += 5;
+          break;
+        case 0x2a: {
+          // ESC * m nL nH d1...dk
+          const mode = n;
+          const columns = (bytes[i + 3] ?? 0) + ((bytes[i + 4] ?? 0) << 8);
+          const dotsPerColumn = mode >= 32 ? 24 : 8;
+          const bytesPerColumn = dotsPerColumn / 8;
+          const start = i + 5;
+          if (!lineIsEmpty()) {
+            commitLine();
+          }
+          const rows: Uint8Array[] = [];
+          for (let r = 0; r < dotsPerColumn; r++) {
+            rows.push(new Uint8Array(columns));
+          }
+          for (let x = 0; x < columns; x++) {
+            for (let b = 0; b < dotsPerColumn; b++) {
+              const value = bytes[start + x * bytesPerColumn + (b >> 3)] ?? 0;
+              rows[b][x] = (value & (0x80 >> (b & 7))) !== 0 ? 1 : 0;
+            }
+          }
+          bitImageWidth = Math.max(bitImageWidth, columns);
+          bitImageRows = bitImageRows.concat(rows);
+          i = start + columns * bytesPerColumn;
+          // The band is terminated by the line feed that follows it.
+          if (bytes[i] === 0x0a) {
+            i += 1;
+          }
+          break;
+        }
+        default:
+          i += 2 + (cmd != null ? ESC_PARAMS[cmd] ?? 0 : 0);
+          break;
+      }
+    } else if (byte === 0x1d) {
+      const cmd = bytes[i + 1];
+      const n = bytes[i + 2] ?? 0;
+      switch (cmd) {
+        case 0x21: // GS !
+          style.width = ((n >> 4) & 0x07) + 1;
+          style.height = (n & 0x07) + 1;
+          i += 3;
+          break;
+        case 0x42: // GS B
+          style.inverse = (n & 1) === 1;
+          i += 3;
+          break;
+        case 0x56: // GS V: m 0/48 full, 1/49 partial; m 65 full and 66 partial take a feed n.
+          emitBlock({ type: 'cut', partial: n === 1 || n === 49 || n === 66 });
+          i += n >= 65 ? 4 : 3;
+          break;
+        case 0x76: {
+          // GS v 0 m xL xH yL yH d1...dk
+          const bytesPerRow = (bytes[i + 4] ?? 0) + ((bytes[i + 5] ?? 0) << 8);
+          const rows = (bytes[i + 6] ?? 0) + ((bytes[i + 7] ?? 0) << 8);
+          const start = i + 8;
+          const imageWidth = bytesPerRow * 8;
+          const data = new Uint8Array(imageWidth * rows);
+          for (let y = 0; y < rows; y++) {
+            for (let x = 0; x < imageWidth; x++) {
+              const value = bytes[start + y * bytesPerRow + (x >> 3)] ?? 0;
+              data[y * imageWidth + x] = (value & (0x80 >> (x & 7))) !== 0 ? 1 : 0;
+            }
+          }
+          emitBlock({ type: 'image', align, bitmap: { width: imageWidth, height: rows, data } });
+          i = start + bytesPerRow * rows;
+          break;
+        }
+        case 0x28: {
+          // GS ( k pL pH cn fn ...
+          const length = (bytes[i + 3] ?? 0) + ((bytes[i + 4] ?? 0) << 8);
+          const start = i + 5;
+          if (n === 0x6b) {
+            const cn = bytes[start];
+            const fn = bytes[start + 1];
+            if (fn === 0x50) {
+              stored[cn] = byteString(start + 3, start + length);
+            } else if (fn === 0x51) {
+              emitBlock({
+                type: 'code',
+                align,
+                symbology: SYMBOLOGY_NAMES[cn] ?? `2D(${cn})`,
+                data: stored[cn] ?? '',
+              });
+            }
+          }
+          i = start + length;
+          break;
+        }
+        case 0x6b: {
+          // GS k m ...
+          const m = n;
+          let data: string;
+          if (m <= 6) {
+            let end = i + 3;
+            while (end < bytes.length && bytes[end] !== 0x00) {
+              end += 1;
+            }
+            data = byteString(i + 3, end);
+            i = end + 1;
+          } else {
+            const length = bytes[i + 3] ?? 0;
+            data = byteString(i + 4, i + 4 + length);
+            i = i + 4 + length;
+            if (m === 73) {
+              // CODE128 data starts with its code set ("{B") and escapes "{" as "{{".
+              data = data.replace(/^\{[ABC]/, '').replace(/\{\{/g, '{');
+            }
+          }
+          emitBlock({ type: 'code', align, symbology: BARCODE_NAMES[m] ?? BARCODE_NAMES[m + 65] ?? `1D(${m})`, data });
+          break;
+        }
+        default:
+          i += 2 + (cmd != null ? GS_PARAMS[cmd] ?? 0 : 0);
+          break;
+      }
+    } else if (byte < 0x20) {
+      i += 1;
+    } else {
+      appendText(decodeChar(byte));
+      i += 1;
+    }
+  }
+
+  if (!lineIsEmpty()) {
+    commitLine();
+  }
+  flushBitImage();
+  return { width, blocks };
+}
+
+function pad(text: string, columns: number, width: number, align: Alignment): string {
+  const free = Math.max(0, width - columns);
+  const left = align === 'center' ? Math.floor(free / 2) : align === 'right' ? free : 0;
+  return ' '.repeat(left) + text;
+}
+
+/**
+ * Renders a preview as plain text. Scaled characters are printed once but
+ * take their scaled width into account for alignment.
+ */
+export function renderPreviewText(preview: ReceiptPreview): string {
+  const lines: string[] = [];
+  preview.blocks.forEach(block => {
+    switch (block.type) {
+      case 'text': {
+        const text = block.segments.map(s => s.text).join('');
+        const columns = block.segments.reduce((sum, s) => sum + s.text.length * s.style.width, 0);
+        lines.push(pad(text, columns, preview.width, block.align).replace(/\s+$/, ''));
+        break;
+      }
+      case 'image': {
+        const label = `[image ${block.bitmap.width}x${block.bitmap.height}]`;
+        lines.push(pad(label, label.length, preview.width, block.align));
+        break;
+      }
+      case 'code': {
+        const label = `[${block.symbology}: ${block.data}]`;
+        lines.push(pad(label, label.length, preview.width, block.align));
+        break;
+      }
+      case 'cut':
+        lines.push((block.partial ? '- ' : '= ').repeat(Math.floor(preview.width / 2)).trim());
+        break;
+      case 'drawer':
+        lines.push(`[open drawer (pin ${block.pin})]`);
+        break;
+    }
+  });
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function bitmapToSvg(bitmap: MonochromeBitmap): string {
+  let path = '';
+  for (let y = 0; y < bitmap.height; y++) {
+    let x = 0;
+    while (x < bitmap.width) {
+      if (!bitmap.data[y * bitmap.width + x]) {
+        x += 1;
+        continue;
+      }
+      const start = x;
+      while (x < bitmap.width && bitmap.data[y * bitmap.width + x]) {
+        x += 1;
+      }
+      path += `M${start} ${y}h${x - start}v1h${start - x}z`;
+    }
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${bitmap.width} ${bitmap.height}" ` +
+    `width="${bitmap.width / 2}" height="${bitmap.height / 2}"><path d="${path}"/></svg>`
+  );
+}
+
+/**
+ * Renders a preview as a standalone HTML page approximating the paper.
+ */
+export function renderPreviewHtml(preview: ReceiptPreview): string {
+  const body = preview.blocks
+    .map(block => {
+      switch (block.type) {
+        case 'text': {
+          const spans = block.segments
+            .map(s => {
+              const css: string[] = [];
+              if (s.style.bold) {
+                css.push('font-weight:bold');
+              }
+              if (s.style.underline) {
+                css.push('text-decoration:underline');
+              }
+              if (s.style.inverse) {
+                css.push('background:#000;color:#fff');
+              }
+              if (s.style.font === 'B') {
+                css.push('font-size:0.75em');
+              }
+              if (s.style.width !== 1 || s.style.height !== 1 || s.style.upsideDown) {
+                const flip = s.style.upsideDown ? ' rotate(180deg)' : '';
+                css.push(`display:inline-block;transform:scale(${s.style.width},${s.style.height})${flip}`);
+                css.push(`transform-origin:left bottom;margin-right:${s.text.length * (s.style.width - 1)}ch`);
+                css.push(`margin-top:${s.style.height - 1}em`);
+              }
+              const text = escapeHtml(s.text);
+              return css.length ? `<span style="${css.join(';')}">${text}</span>` : text;
+            })
+            .join('');
+          return `<div class="line" style="text-align:${block.align}">${spans || '&nbsp;'}</div>`;
+        }
+        case 'image':
+          return `<div style="text-align:${block.align}">${bitmapToSvg(block.bitmap)}</div>`;
+        case 'code':
+          return (
+            `<div style="text-align:${block.align}"><div class="code">` +
+            `${escapeHtml(block.symbology)}<br>${escapeHtml(block.data)}</div></div>`
+          );
+        case 'cut':
+          return `<div class="cut${block.partial ? ' partial' : ''}"></div>`;
+        case 'drawer':
+          return `<div class="drawer">open drawer (pin ${block.pin})</div>`;
+      }
+      return '';
+    })
+    .join('\n');
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">' +
+    '<style>' +
+    `.paper{font-family:monospace;white-space:pre;width:${preview.width}ch;margin:0 auto;padding:1ch;background:#fff;}` +
+    '.line{overflow:visible;min-height:1.2em}' +
+    '.code{display:inline-block;border:1px dashed #000;padding:4px;white-space:pre-wrap;word-break:break-all;max-width:80%}' +
+    '.cut{border-top:2px dashed #000;margin:8px 0}.cut.partial{border-top-style:dotted}' +
+    '.drawer{color:#888;text-align:center}' +
+    'body{background:#ddd}' +
+    '</style></head><body><div class="paper">\n' +
+    body +
+    '\n</div></body></html>'
+  );
+}
@@ -0,0 +1,530 @@
+// httpServer.ts
+import { Buffer } from 'buffer';
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  // The request target as sent, path and query undecoded.
+  target: string;
+  version: string;
+  // Header names are lower-cased; repeated headers are joined with ", ".
+  headers: Record<string, string>;
+  body: Buffer;
+  keepAlive: boolean;
+  params: Record<string, string>;
+  // Address of the client, when the socket reports it.
+  remoteAddress?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+}
+
+export type RouteHandler = (req: HttpRequest) => Promise<HttpResponse> | HttpResponse;
+
+/**
+ * Error thrown for requests that cannot be parsed; status is the HTTP status to answer with.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const STATUS_TEXT: Record<number, string> = {
+  100: 'Continue',
+  200: 'OK',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  411: 'Length Required',
+  413: 'Payload Too Large',
+  422: 'Unprocessable Entity',
+  431: 'Request Header Fields Too Large',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  503: 'Service Unavailable',
+  505: 'HTTP Version Not Supported',
+};
+
+export interface RequestParserOptions {
+  maxHeaderSize?: number;
+  maxBodySize?: number;
+  // Called once the headers of a request with "Expect: 100-continue" are in.
+  onExpectContinue?: () => void;
+}
+
+export interface ParseResult {
+  // Every request completed by the bytes, in order.
+  requests: HttpRequest[];
+  // Set when the bytes after those requests are malformed.
+  error: HttpError | null;
+  // The request the error belongs to, without a body, when its headers were read.
+  rejected?: HttpRequest;
+}
+
+export interface RequestParser {
+  // Feeds received bytes; once an error is returned, later calls return it again.
+  push(chunk: Buffer | string): ParseResult;
+}
+
+const HEADER_END = '\r\n\r\n';
+const TOKEN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+interface PendingHead {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  target: string;
+  version: string;
+  headers: Record<string, string>;
+  keepAlive: boolean;
+  chunked: boolean;
+  contentLength: number;
+}
+
+function parseQuery(search: string): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (!search) {
+    return query;
+  }
+  search.split('&').forEach(pair => {
+    if (!pair) {
+      return;
+    }
+    const eq = pair.indexOf('=');
+    const key = eq >= 0 ? pair.slice(0, eq) : pair;
+    const value = eq >= 0 ? pair.slice(eq + 1) : '';
+    try {
+      query[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      throw new HttpError(400, 'Malformed query string');
+    }
+  });
+  return query;
+}
+
+function parseHead(head: string): PendingHead {
+  const lines = head.split('\r\n');
+  const requestLine = lines.shift() ?? '';
+  const parts = requestLine.split(' ');
+  if (parts.length !== 3 || !TOKEN.test(parts[0]) || !parts[1]) {
+    throw new HttpError(400, 'Malformed request line');
+  }
+  const [method, target, version] = parts;
+  const versionMatch = /^HTTP\/(\d)\.(\d)$/.exec(version);
+  if (!versionMatch) {
+    throw new HttpError(400, 'Malformed HTTP version');
+  }
+  if (versionMatch[1] !== '1') {
+    throw new HttpError(505, 'Unsupported HTTP version');
+  }
+  if (!target.startsWith('/') && target !== '*') {
+    throw new HttpError(400, 'Unsupported request target');
+  }
+
+  const headers: Record<string, string> = {};
+  lines.forEach(line => {
+    const colon = line.indexOf(':');
+    const name = colon > 0 ? line.slice(0, colon) : '';
+    if (!TOKEN.test(name)) {
+      throw new HttpError(400, 'Malformed header line');
+    }
+    const key = name.toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    headers[key] = headers[key] != null ? headers[key] + ', ' + value : value;
+  });
+
+  if (version === 'HTTP/1.1' && headers.host == null) {
+    throw new HttpError(400, 'Missing Host header');
+  }
+
+  let chunked = false;
+  let contentLength = 0;
+  const transferEncoding = headers['transfer-encoding'];
+  if (transferEncoding != null) {
+    if (headers['content-length'] != null) {
+      throw new HttpError(400, 'Both Transfer-Encoding and Content-Length given');
+    }
+    const codings = transferEncoding.toLowerCase().split(',').map(s => s.trim());
+    if (codings.length !== 1 || codings[0] !== 'chunked') {
+      throw new HttpError(501, 'Unsupported transfer encoding');
+    }
+    chunked = true;
+  } else if (headers['content-length'] != null) {
+    const values = headers['content-length'].split(',').map(s => s.trim());
+    if (!values.every(v => /^\d+$/.test(v) && v === values[0])) {
+      throw new HttpError(400, 'Invalid Content-Length');
+    }
+    contentLength = parseInt(values[0], 10);
+  }
+
+  const connection = (headers.connection ?? '').toLowerCase();
+  const keepAlive =
+    version === 'HTTP/1.1' ? !connection.includes('close') : connection.includes('keep-alive');
+
+  const queryIndex = target.indexOf('?');
+  let path = queryIndex >= 0 ? target.slice(0, queryIndex) : target;
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    throw new HttpError(400, 'Malformed request path');
+  }
+  const query = queryIndex >= 0 ? parseQuery(target.slice(queryIndex + 1)) : {};
+
+  return { method, path, query, target, version, headers, keepAlive, chunked, contentLength };
+}
+
+/**
+ * Creates an incremental HTTP/1.x request parser.
+ * Bytes may arrive split at any point; several pipelined requests may arrive
+ * in one chunk. Bodies are delimited by Content-Length or chunked encoding.
+ * Malformed input is reported as an HttpError alongside the requests completed
+ * before it; those should be answered and the connection then closed.
+ */
+export function createRequestParser(options: RequestParserOptions = {}): RequestParser {
+  const maxHeaderSize = options.maxHeaderSize ?? 16 * 1024;
+  const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+
+  let buffer = Buffer.alloc(0);
+  let head: PendingHead | null = null;
+  // Chunked decoding state.
+  let chunks: Buffer[] = [];
+  let chunkedSize = 0;
+  let inTrailer = false;
+  let failed: HttpError | null = null;
+
+  const complete = (body: Buffer): HttpRequest => {
+    const { method, path, query, target, version, headers, keepAlive } = head!;
+    head = null;
+    chunks = [];
+    chunkedSize = 0;
+    inTrailer = false;
+    return { method, path, query, target, version, headers, keepAlive, body, params: {} };
+  };
+
+  // Consumes as much of a chunked body as is buffered; returns the body once complete.
+  const readChunked = (): Buffer | null => {
+    for (;;) {
+      const lineEnd = buffer.indexOf('\r\n');
+      if (lineEnd < 0) {
+        if (buffer.length > maxHeaderSize) {
+          throw new HttpError(400, 'Malformed chunk');
+        }
+        return null;
+      }
+      const line = buffer.slice(0, lineEnd).toString('latin1');
+      if (inTrailer) {
+        buffer = buffer.slice(lineEnd + 2);
+        if (line === '') {
+          return Buffer.concat(chunks);
+        }
+        continue;
+      }
+      const sizeText = line.split(';')[0].trim();
+      if (!/^[0-9a-fA-F]+$/.test(sizeText)) {
+        throw new HttpError(400, 'Malformed chunk size');
+      }
+      const size = parseInt(sizeText, 16);
+      if (size === 0) {
+        buffer = buffer.slice(lineEnd + 2);
+        inTrailer = true;
+        continue;
+      }
+      if (chunkedSize + size > maxBodySize) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      const dataEnd = lineEnd + 2 + size;
+      if (buffer.length < dataEnd + 2) {
+        return null;
+      }
+      if (buffer[dataEnd] !== 0x0d || buffer[dataEnd + 1] !== 0x0a) {
+        throw new HttpError(400, 'Malformed chunk');
+      }
+      chunks.push(buffer.slice(lineEnd + 2, dataEnd));
+      chunkedSize += size;
+      buffer = buffer.slice(dataEnd + 2);
+    }
+  };
+
+  // Parses every complete request in the buffer into requests; throws on malformed input.
+  const readRequests = (requests: HttpRequest[]) => {
+    for (;;) {
+      if (!head) {
+        // Tolerate stray line breaks between pipelined requests.
+        while (buffer.length >= 2 && buffer[0] === 0x0d && buffer[1] === 0x0a) {
+          buffer = buffer.slice(2);
+        }
+        const headEnd = buffer.indexOf(HEADER_END);
+        if (headEnd < 0) {
+          if (buffer.length > maxHeaderSize) {
+            throw new HttpError(431, 'Request headers too large');
+          }
+          break;
+        }
+        if (headEnd > maxHeaderSize) {
+          throw new HttpError(431, 'Request headers too large');
+        }
+        head = parseHead(buffer.slice(0, headEnd).toString('latin1'));
+        buffer = buffer.slice(headEnd + HEADER_END.length);
+        if (!head.chunked && head.contentLength > maxBodySize) {
+          throw new HttpError(413, 'Request body too large');
+        }
+        if ((head.headers.expect ?? '').toLowerCase() === '100-continue') {
+          options.onExpectContinue?.();
+        }
+      }
+
+      if (head.chunked) {
+        const body = readChunked();
+        if (!body) {
+          break;
+        }
+        requests.push(complete(body));
+      } else {
+        if (buffer.length < head.contentLength) {
+          break;
+        }
+        const body = buffer.slice(0, head.contentLength);
+        buffer = buffer.slice(head.contentLength);
+        requests.push(complete(body));
+      }
+    }
+  };
+
+  return {
+    push(chunk: Buffer | string) {
+      const requests: HttpRequest[] = [];
+      if (failed) {
+        return { requests, error: failed };
+      }
+      const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : Buffer.from(chunk);
+      buffer = buffer.length ? Buffer.concat([buffer, data]) : data;
+
+      try {
+        readRequests(requests);
+      } catch (err) {
+        failed = err instanceof HttpError ? err : new HttpError(400, 'Malformed request');
+        const rejected = head ? complete(Buffer.alloc(0)) : undefined;
+        buffer = Buffer.alloc(0);
+        return { requests, error: failed, rejected };
+      }
+      return { requests, error: failed };
+    },
+  };
+}
+
+/**
+ * Serializes a response, filling in Content-Length and Connection.
+ */
+export function serializeResponse(response: HttpResponse, keepAlive: boolean): Buffer {
+  const body =
+    response.body == null
+      ? Buffer.alloc(0)
+      : typeof response.body === 'string'
+      ? Buffer.from(response.body, 'utf8')
+      : response.body;
+  const reason = STATUS_TEXT[response.status] ?? '';
+  let head = `HTTP/1.1 ${response.status} ${reason}\r\n`;
+  Object.entries(response.headers ?? {}).forEach(([name, value]) => {
+    const lower = name.toLowerCase();
+    if (lower !== 'content-length' && lower !== 'connection') {
+      head += `${name}: ${value}\r\n`;
+    }
+  });
+  head += `Content-Length: ${body.length}\r\n`;
+  head += `Connection: ${keepAlive ? 'keep-alive' : 'close'}\r\n\r\n`;
+  return Buffer.concat([Buffer.from(head, 'latin1'), body]);
+}
+
+/**
+ * Builds a JSON response.
+ */
+export function jsonResponse(status: number, data: unknown): HttpResponse {
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  };
+}
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+export interface Router {
+  add(method: string, path: string, handler: RouteHandler): Router;
+  handle(req: HttpRequest): Promise<HttpResponse>;
+  // Adds the default headers for req to a response made outside the router.
+  withDefaults(req: HttpRequest, response: HttpResponse): HttpResponse;
+}
+
+export interface RouterOptions {
+  // Headers added to every response (e.g. CORS), or a function choosing them per request.
+  defaultHeaders?: Record<string, string> | ((req: HttpRequest) => Record<string, string>);
+  // Runs before routing; returning a response rejects the request with it.
+  guard?: (req: HttpRequest) => HttpResponse | null;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchRoute(route: Route, segments: string[]): Record<string, string> | null {
+  if (route.segments.length !== segments.length) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (let i = 0; i < segments.length; i++) {
+    const expected = route.segments[i];
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = segments[i];
+    } else if (expected !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Creates a router that dispatches requests by method and path.
+ * Paths may contain ":name" segments, exposed as req.params.
+ * Requests the guard rejects get its response; otherwise unknown paths
+ * answer 404, known paths with another method 405, and OPTIONS preflights 204.
+ */
+export function createRouter(options: RouterOptions = {}): Router {
+  const routes: Route[] = [];
+  const defaultHeaders = options.defaultHeaders ?? {};
+
+  const headersFor = (req: HttpRequest) =>
+    typeof defaultHeaders === 'function' ? defaultHeaders(req) : defaultHeaders;
+
+  const router: Router = {
+    add(method, path, handler) {
+      routes.push({ method: method.toUpperCase(), segments: splitPath(path), handler });
+      return router;
+    },
+
+    withDefaults: (req, response) => ({
+      ...response,
+      headers: { ...headersFor(req), ...response.headers },
+    }),
+
+    async handle(req) {
+      const withDefaults = (response: HttpResponse) => router.withDefaults(req, response);
+      const rejection = options.guard?.(req);
+      if (rejection) {
+        return withDefaults(rejection);
+      }
+      const segments = splitPath(req.path);
+      const matching = routes
+        .map(route => ({ route, params: matchRoute(route, segments) }))
+        .filter(m => m.params != null);
+      if (matching.length === 0) {
+        return withDefaults({ status: 404 });
+      }
+      const allowed = Array.from(new Set(matching.map(m => m.route.method)));
+      if (req.method === 'OPTIONS') {
+        return withDefaults({ status: 204, headers: { Allow: allowed.concat('OPTIONS').join(', ') } });
+      }
+      const method = req.method === 'HEAD' ? 'GET' : req.method;
+      const match = matching.find(m => m.route.method === method);
+      if (!match) {
+        return withDefaults({ status: 405, headers: { Allow: allowed.join(', ') } });
+      }
+      try {
+        const response = await match.route.handler({ ...req, params: match.params! });
+        return withDefaults(req.method === 'HEAD' ? { ...response, body: undefined } : response);
+      } catch (err: any) {
+        if (err instanceof HttpError) {
+          return withDefaults({ status: err.status, headers: { 'Content-Type': 'text/plain' }, body: err.message });
+        }
+        console.error('Error handling request:', err);
+        return withDefaults({ status: 500 });
+      }
+    },
+  };
+  return router;
+}
+
+/**
+ * The subset of a TCP socket the connection handler needs.
+ */
+export interface HttpSocket {
+  remoteAddress?: string;
+  on(event: 'data', listener: (data: Buffer | string) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  write(data: Buffer | string): unknown;
+  end(): unknown;
+}
+
+/**
+ * Serves HTTP on a connected socket. Requests are answered strictly in
+ * order, so pipelined requests get their responses in sequence; keep-alive
+ * connections stay open until the client asks to close.
+ */
+export function handleHttpConnection(
+  socket: HttpSocket,
+  router: Router,
+  options: RequestParserOptions = {},
+): void {
+  const parser = createRequestParser({
+    ...options,
+    onExpectContinue: () => socket.write('HTTP/1.1 100 Continue\r\n\r\n'),
+  });
+  let pending: Promise<void> = Promise.resolve();
+  let closed = false;
+  // The last request read, whose headers (e.g. Origin) answer a malformed one.
+  let lastRequest: HttpRequest | null = null;
+
+  const send = (response: HttpResponse, keepAlive: boolean) => {
+    if (closed) {
+      return;
+    }
+    socket.write(serializeResponse(response, keepAlive));
+    if (!keepAlive) {
+      closed = true;
+      socket.end();
+    }
+  };
+
+  socket.on('close', () => {
+    closed = true;
+  });
+
+  socket.on('data', (data: Buffer | string) => {
+    if (closed) {
+      return;
+    }
+    // Requests completed before a malformed one are still answered, first.
+    const { requests, error: parseError, rejected } = parser.push(data);
+    lastRequest = rejected ?? requests[requests.length - 1] ?? lastRequest;
+    requests.forEach(req => {
+      pending = pending.then(async () => {
+        const response = await router.handle({ ...req, remoteAddress: socket.remoteAddress });
+        send(response, req.keepAlive);
+      });
+    });
+    if (parseError) {
+      const error = parseError;
+      const response = { status: error.status, headers: { 'Content-Type': 'text/plain' }, body: error.message };
+      const req = lastRequest;
+      console.warn('Rejected malformed request:', error.message);
+      pending = pending.then(() => send(req ? router.withDefaults(req, response) : response, false));
+    }
+  });
+}
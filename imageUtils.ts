@@ -1,6 +1,185 @@
 // imageUtils.ts
+import { Buffer } from 'buffer';
+import UPNG from 'upng-js';
+import jpeg from 'jpeg-js';
+import { MonochromeBitmap } from './escpos-commands';
+import { createEscPosDocument } from './escposBuilder';
+
 export function dataUrlToBuffer(dataUrl: string): Buffer {
-    const base64Data = dataUrl.split(',')[1];
-    return Buffer.from(base64Data, 'base64');
+  const base64Data = dataUrl.split(',')[1];
+  return Buffer.from(base64Data, 'base64');
+}
+
+export type DitherMode = 'threshold' | 'floyd-steinberg' | 'atkinson';
+
+export type ImageCommandMode = 'raster' | 'bit-image';
+
+// Printable dots per line for common paper widths.
+export const DOTS_58MM = 384;
+export const DOTS_80MM = 576;
+
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  // One luminance byte per pixel, 0 = black, 255 = white.
+  data: Uint8Array;
+}
+
+export interface ImageCommandOptions {
+  // Printable dot width of the printer. Default is 576 (80mm).
+  dotWidth?: number;
+  // Target width in dots; defaults to the image width, shrunk to fit dotWidth.
+  width?: number;
+  dither?: DitherMode;
+  // Luminance below which a pixel prints black. Default is 128.
+  threshold?: number;
+  mode?: ImageCommandMode;
+}
+
+/**
+ * Returns the printable dot width for a printer width given in characters.
+ */
+export function dotWidthForColumns(columns: number): number {
+  return columns <= 32 ? DOTS_58MM : DOTS_80MM;
+}
+
+/**
+ * Decodes a PNG or JPEG data URL to grayscale; transparent pixels become white.
+ */
+export function decodeImage(dataUrl: string): GrayscaleImage {
+  const bytes = dataUrlToBuffer(dataUrl);
+  let width: number;
+  let height: number;
+  let rgba: Uint8Array;
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    const arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+    const png = UPNG.decode(arrayBuffer as ArrayBuffer);
+    width = png.width;
+    height = png.height;
+    rgba = new Uint8Array(UPNG.toRGBA8(png)[0]);
+  } else if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    width = decoded.width;
+    height = decoded.height;
+    rgba = decoded.data;
+  } else {
+    throw new Error('Unsupported image format; expected PNG or JPEG');
   }
-  
\ No newline at end of file
+
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const luminance = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+    data[i] = Math.round(luminance * alpha + 255 * (1 - alpha));
+  }
+  return { width, height, data };
+}
+
+/**
+ * Resizes a grayscale image to the given width, keeping the aspect ratio.
+ * Each target pixel averages the source pixels it covers.
+ */
+export function scaleImage(image: GrayscaleImage, width: number): GrayscaleImage {
+  const targetWidth = Math.max(1, Math.round(width));
+  if (targetWidth === image.width) {
+    return image;
+  }
+  const ratio = image.width / targetWidth;
+  const targetHeight = Math.max(1, Math.round(image.height / ratio));
+  const data = new Uint8Array(targetWidth * targetHeight);
+  for (let y = 0; y < targetHeight; y++) {
+    const y0 = Math.floor(y * ratio);
+    const y1 = Math.min(image.height, Math.max(y0 + 1, Math.floor((y + 1) * ratio)));
+    for (let x = 0; x < targetWidth; x++) {
+      const x0 = Math.floor(x * ratio);
+      const x1 = Math.min(image.width, Math.max(x0 + 1, Math.floor((x + 1) * ratio)));
+      let sum = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          sum += image.data[sy * image.width + sx];
+        }
+      }
+      data[y * targetWidth + x] = Math.round(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+  return { width: targetWidth, height: targetHeight, data };
+}
+
+// Error diffusion kernels as [dx, dy, weight].
+const FLOYD_STEINBERG: Array<[number, number, number]> = [
+  [1, 0, 7 / 16],
+  [-1, 1, 3 / 16],
+  [0, 1, 5 / 16],
+  [1, 1, 1 / 16],
+];
+
+const ATKINSON: Array<[number, number, number]> = [
+  [1, 0, 1 / 8],
+  [2, 0, 1 / 8],
+  [-1, 1, 1 / 8],
+  [0, 1, 1 / 8],
+  [1, 1, 1 / 8],
+  [0, 2, 1 / 8],
+];
+
+/**
+ * Converts a grayscale image to a 1-bit bitmap with the chosen dithering.
+ */
+export function ditherImage(
+  image: GrayscaleImage,
+  mode: DitherMode = 'floyd-steinberg',
+  threshold: number = 128,
+): MonochromeBitmap {
+  const { width, height } = image;
+  const data = new Uint8Array(width * height);
+  if (mode === 'threshold') {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = image.data[i] < threshold ? 1 : 0;
+    }
+    return { width, height, data };
+  }
+
+  const kernel = mode === 'atkinson' ? ATKINSON : FLOYD_STEINBERG;
+  const levels = Float32Array.from(image.data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = levels[i] < threshold;
+      data[i] = black ? 1 : 0;
+      const error = levels[i] - (black ? 0 : 255);
+      kernel.forEach(([dx, dy, weight]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          levels[ny * width + nx] += error * weight;
+        }
+      });
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Turns a PNG/JPEG data URL into a printer-ready bitmap.
+ */
+export function imageToBitmap(dataUrl: string, options: ImageCommandOptions = {}): MonochromeBitmap {
+  const dotWidth = options.dotWidth ?? DOTS_80MM;
+  const image = decodeImage(dataUrl);
+  const width = Math.min(options.width ?? image.width, dotWidth);
+  return ditherImage(scaleImage(image, width), options.dither, options.threshold);
+}
+
+/**
+ * Returns ESC/POS bytes printing a PNG/JPEG data URL, centered.
+ * Used for logos, stamps and signatures.
+ */
+export function imageToEscPos(dataUrl: string, options: ImageCommandOptions = {}): Uint8Array {
+  const bitmap = imageToBitmap(dataUrl, options);
+  const doc = createEscPosDocument().align('center');
+  if (options.mode === 'bit-image') {
+    doc.bitImage(bitmap);
+  } else {
+    doc.raster(bitmap);
+  }
+  return doc.align('left').build();
+}
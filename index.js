@@ -1,3 +1,4 @@
+import 'react-native-get-random-values';  // crypto.getRandomValues for the pairing token
 import { AppRegistry } from 'react-native';
 import App from './App';  // Import your main App component
 import { name as appName } from './app.json';
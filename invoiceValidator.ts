@@ -0,0 +1,260 @@
+// invoiceValidator.ts
+import { Buffer } from 'buffer';
+import { BARCODE_POSITIONS, MAX_COPIES } from './InvoiceFormatter';
+import {
+  BARCODE_SYMBOLOGIES,
+  barcodeDataError,
+  BarcodeSymbology,
+  Symbology2D,
+  symbolCapacityError,
+} from './escpos-commands';
+import { convertMinorUnits, currencyInfo, minorUnitsToString, toMinorUnits } from './money';
+import { isLanguageCode } from './receiptLabels';
+
+export interface InvoiceFieldError {
+  // Path of the offending field, e.g. "lines[2].price".
+  field: string;
+  message: string;
+}
+
+export interface InvoiceValidationOptions {
+  // Largest difference accepted between a total and the sum it should
+  // match, in currency units. Default is 0.01.
+  tolerance?: number;
+}
+
+const STRING_FIELDS = [
+  'header', 'invoiceType', 'tin', 'address', 'fiscString', 'opCode', 'buCode', 'Date', 'FiscDateRange',
+  'TaxPointDate', 'CustomerName', 'CustomerTin', 'CustomerContact', 'CustomerAddress', 'qrCode', 'IIC', 'FIC',
+  'EIC', 'Footer', 'barcode', 'pdf417', 'dataMatrix',
+];
+
+const NUMBER_FIELDS = ['totalPriceNoVat', 'totalDiscount', 'totalPrice', 'Exrate', 'qrSize'];
+
+// Whole-number 2D code settings and their ranges.
+const CODE_SETTINGS: Array<[string, number, number]> = [
+  ['pdf417Size', 2, 8],
+  ['pdf417ErrorLevel', 0, 8],
+  ['dataMatrixSize', 2, 16],
+];
+
+const QR_LEVELS = ['L', 'M', 'Q', 'H'];
+
+const BOOLEAN_FIELDS = ['copy', 'cut', 'openDrawer'];
+
+// Needed on every receipt.
+const REQUIRED_FIELDS = ['invNumber', 'totalPrice'];
+
+// Needed once the invoice is fiscalized, i.e. carries an IIC.
+const FISCAL_FIELDS = ['tin', 'buCode', 'opCode', 'Date', 'qrCode'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks the print settings every document type shares: copy, copies,
+ * copyLabel, cut, openDrawer and language.
+ */
+export function validatePrintSettings(document: Record<string, any>): InvoiceFieldError[] {
+  const errors: InvoiceFieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+  if (document.copyLabel != null && typeof document.copyLabel !== 'string') {
+    fail('copyLabel', 'must be a string');
+  }
+  BOOLEAN_FIELDS.forEach(field => {
+    if (document[field] != null && typeof document[field] !== 'boolean') {
+      fail(field, 'must be true or false');
+    }
+  });
+  const { copies } = document;
+  if (copies != null && (!Number.isInteger(copies) || copies < 1 || copies > MAX_COPIES)) {
+    fail('copies', `must be a whole number from 1 to ${MAX_COPIES}`);
+  }
+  if (document.language != null && !isLanguageCode(document.language)) {
+    fail('language', 'is not a supported language');
+  }
+  return errors;
+}
+
+/**
+ * Checks an invoice received over the network before it is printed.
+ *
+ * Besides field types and required fields, amounts are reconciled:
+ * - fullPrice matches quantity x price on each line
+ * - line amounts after discount add up to totalPriceNoVat
+ * - line discounts add up to totalDiscount
+ * - totalPriceNoVat plus the VAT amounts equals totalPrice
+ *
+ * Returns one error per offending field; an empty list means it is valid.
+ */
+export function validateInvoice(value: unknown, options: InvoiceValidationOptions = {}): InvoiceFieldError[] {
+  const errors: InvoiceFieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ field: '', message: 'invoice must be a JSON object' }];
+  }
+  const invoice = value as Record<string, any>;
+
+  STRING_FIELDS.forEach(field => {
+    if (invoice[field] != null && typeof invoice[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  });
+  NUMBER_FIELDS.forEach(field => {
+    if (invoice[field] != null && !isNumber(invoice[field])) {
+      fail(field, 'must be a number');
+    }
+  });
+  errors.push(...validatePrintSettings(invoice));
+  if (invoice.invNumber != null && typeof invoice.invNumber !== 'string' && !isNumber(invoice.invNumber)) {
+    fail('invNumber', 'must be a string or a number');
+  }
+  if (isNumber(invoice.Exrate) && invoice.Exrate <= 0) {
+    fail('Exrate', 'must be greater than zero');
+  }
+  if (invoice.barcodeType != null && !BARCODE_SYMBOLOGIES.includes(invoice.barcodeType)) {
+    fail('barcodeType', `must be one of ${BARCODE_SYMBOLOGIES.join(', ')}`);
+  }
+  if (invoice.barcodePosition != null && !BARCODE_POSITIONS.includes(invoice.barcodePosition)) {
+    fail('barcodePosition', `must be one of ${BARCODE_POSITIONS.join(', ')}`);
+  }
+  if (typeof invoice.barcode === 'string' && !errors.some(error => error.field === 'barcodeType')) {
+    const problem = barcodeDataError((invoice.barcodeType as BarcodeSymbology) ?? 'CODE128', invoice.barcode);
+    if (problem) {
+      fail('barcode', problem);
+    }
+  }
+  CODE_SETTINGS.forEach(([field, min, max]) => {
+    if (invoice[field] != null && (!Number.isInteger(invoice[field]) || invoice[field] < min || invoice[field] > max)) {
+      fail(field, `must be a whole number from ${min} to ${max}`);
+    }
+  });
+  if (invoice.qrErrorCorrection != null && !QR_LEVELS.includes(invoice.qrErrorCorrection)) {
+    fail('qrErrorCorrection', `must be one of ${QR_LEVELS.join(', ')}`);
+  }
+  // 2D codes must fit their symbol at the chosen error correction.
+  const codes: Array<[string, Symbology2D]> = [['qrCode', 'QR'], ['pdf417', 'PDF417'], ['dataMatrix', 'DataMatrix']];
+  codes.forEach(([field, symbology]) => {
+    if (typeof invoice[field] !== 'string' || invoice[field] === '') {
+      return;
+    }
+    const problem = symbolCapacityError(symbology, Buffer.byteLength(invoice[field], 'utf8'), {
+      errorCorrection: QR_LEVELS.includes(invoice.qrErrorCorrection) ? invoice.qrErrorCorrection : undefined,
+      errorLevel: errors.some(error => error.field === 'pdf417ErrorLevel') ? undefined : invoice.pdf417ErrorLevel,
+    });
+    if (problem) {
+      fail(field, problem);
+    }
+  });
+  if (invoice.currency != null && (typeof invoice.currency !== 'string' || !/^[A-Z]{3}$/.test(invoice.currency))) {
+    fail('currency', 'must be a three-letter ISO 4217 code');
+  }
+
+  const required = invoice.IIC != null ? [...REQUIRED_FIELDS, ...FISCAL_FIELDS] : REQUIRED_FIELDS;
+  required.forEach(field => {
+    if (invoice[field] == null || invoice[field] === '') {
+      fail(field, 'is required');
+    }
+  });
+  if (invoice.IIC != null && invoice.FIC == null && invoice.EIC == null) {
+    fail('FIC', 'is required unless EIC is given');
+  }
+
+  const { decimals } = currencyInfo(typeof invoice.currency === 'string' ? invoice.currency : undefined);
+  const minor = (amount: number) => toMinorUnits(amount, decimals);
+  const tolerance = minor(options.tolerance ?? 0.01);
+  const differs = (a: bigint, b: bigint) => (a > b ? a - b : b - a) > tolerance;
+  // Sums are only reconciled when every amount they depend on is valid.
+  let reconcile = !errors.some(error => NUMBER_FIELDS.includes(error.field));
+
+  let netSum = 0n;
+  let discountSum = 0n;
+  if (!Array.isArray(invoice.lines) || invoice.lines.length === 0) {
+    fail('lines', 'must list at least one line');
+    reconcile = false;
+  } else {
+    invoice.lines.forEach((line: any, index: number) => {
+      const at = `lines[${index}]`;
+      if (!line || typeof line !== 'object') {
+        fail(at, 'must be an object');
+        reconcile = false;
+        return;
+      }
+      if (typeof line.productName !== 'string' || line.productName === '') {
+        fail(`${at}.productName`, 'is required');
+      }
+      if (line.uom != null && typeof line.uom !== 'string') {
+        fail(`${at}.uom`, 'must be a string');
+      }
+      if (line.ean != null) {
+        const problem = typeof line.ean === 'string' ? barcodeDataError('EAN13', line.ean) : 'must be a string';
+        if (problem) {
+          fail(`${at}.ean`, problem);
+        }
+      }
+      const amounts = ['quantity', 'price', 'fullPrice', 'discountAmount'];
+      const valid = amounts.every(field => {
+        const required = field === 'quantity' || field === 'price';
+        if (line[field] == null ? required : !isNumber(line[field])) {
+          fail(`${at}.${field}`, required && line[field] == null ? 'is required' : 'must be a number');
+          return false;
+        }
+        return true;
+      });
+      if (!valid) {
+        reconcile = false;
+        return;
+      }
+      const lineTotal = convertMinorUnits(minor(line.price), line.quantity);
+      const fullPrice = line.fullPrice != null ? minor(line.fullPrice) : lineTotal;
+      if (differs(fullPrice, lineTotal)) {
+        fail(`${at}.fullPrice`, `does not match quantity x price (${line.quantity} x ${line.price})`);
+      }
+      const discount = line.discountAmount != null ? minor(line.discountAmount) : 0n;
+      // On returned lines (credit notes) both amounts are negative.
+      const outOfRange = fullPrice < 0n ? discount > 0n || discount < fullPrice : discount < 0n || discount > fullPrice;
+      if (outOfRange) {
+        fail(`${at}.discountAmount`, 'must be between zero and the line amount');
+      }
+      netSum += fullPrice - discount;
+      discountSum += discount;
+    });
+  }
+
+  let vatSum = 0n;
+  if (invoice.vat != null) {
+    if (!Array.isArray(invoice.vat)) {
+      fail('vat', 'must be an array');
+      reconcile = false;
+    } else {
+      invoice.vat.forEach((item: any, index: number) => {
+        const at = `vat[${index}]`;
+        if (typeof item?.vatType !== 'string') {
+          fail(`${at}.vatType`, 'must be a string');
+        }
+        if (!isNumber(item?.amount)) {
+          fail(`${at}.amount`, 'must be a number');
+          reconcile = false;
+          return;
+        }
+        vatSum += minor(item.amount);
+      });
+    }
+  }
+
+  if (!reconcile) {
+    return errors;
+  }
+  const format = (amount: bigint) => minorUnitsToString(amount, decimals);
+  if (invoice.totalPriceNoVat != null && differs(minor(invoice.totalPriceNoVat), netSum)) {
+    fail('totalPriceNoVat', `does not match the sum of the lines (${format(netSum)})`);
+  }
+  if (invoice.totalDiscount != null && differs(minor(invoice.totalDiscount), discountSum)) {
+    fail('totalDiscount', `does not match the sum of the line discounts (${format(discountSum)})`);
+  }
+  const noVat = invoice.totalPriceNoVat != null ? minor(invoice.totalPriceNoVat) : netSum;
+  if (differs(minor(invoice.totalPrice), noVat + vatSum)) {
+    fail('totalPrice', `does not match the amount without VAT plus VAT (${format(noVat + vatSum)})`);
+  }
+  return errors;
+}
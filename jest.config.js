@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // Only *.test files are suites; __tests__/helpers holds shared test code.
+  testMatch: ['**/__tests__/**/*.test.[jt]s?(x)'],
 };
@@ -0,0 +1,145 @@
+// kitchenTicket.ts
+import { documentData, FormatOptions, PrintSettings, renderDocument } from './InvoiceFormatter';
+import { InvoiceFieldError, validatePrintSettings } from './invoiceValidator';
+import { ReceiptTemplate } from './receiptTemplate';
+
+export interface KitchenTicketItem {
+  name: string;
+  quantity: number;
+  // Free text for the cook, e.g. "no onions".
+  notes?: string;
+  // Choices printed under the item, e.g. ["well done", "extra cheese"].
+  modifiers?: string[];
+}
+
+/**
+ * An order sent to the kitchen or bar: what to prepare, in large print and
+ * without prices.
+ */
+export interface KitchenTicket extends PrintSettings {
+  documentType: 'kitchenTicket';
+  orderNumber: string | number;
+  table?: string;
+  server?: string;
+  // Kitchen station the ticket is for, e.g. "BAR" or "GRILL".
+  station?: string;
+  Date?: string;
+  items: KitchenTicketItem[];
+  // Notes for the whole order.
+  notes?: string;
+}
+
+/**
+ * The kitchen ticket layout: order, table and items at double height so they
+ * read from a distance.
+ */
+export const KITCHEN_TICKET_TEMPLATE: ReceiptTemplate = {
+  name: 'kitchenTicket',
+  sections: [
+    { type: 'text', text: '{{station}}', align: 'center', bold: true, inverse: true, size: 2, if: 'station' },
+    { type: 'text', text: '{{label.order}} #{{orderNumber}}', align: 'center', bold: true, size: 2 },
+    { type: 'text', text: '{{label.table}}: {{table}}', bold: true, size: 2, if: 'table' },
+    { type: 'text', text: '{{label.server}}: {{server}}', if: 'server' },
+    { type: 'text', text: '{{Date}}', if: 'Date' },
+    { type: 'divider', char: '=' },
+    {
+      type: 'table',
+      items: 'items',
+      where: 'name',
+      size: [1, 2],
+      columns: [
+        { text: '{{quantity}}x', width: 4, align: 'right' },
+        { text: '**{{name}}**', markup: true },
+      ],
+      details: [
+        {
+          type: 'each',
+          items: 'modifiers',
+          sections: [{ type: 'text', text: '      + {{text}}' }],
+        },
+        { type: 'text', text: '      ! {{notes}}', bold: true, if: 'notes' },
+      ],
+      after: [{ type: 'divider', char: '=' }],
+    },
+    { type: 'text', text: '{{label.notes}}:', bold: true, if: 'notes' },
+    { type: 'text', text: '{{notes}}', size: [1, 2], if: 'notes' },
+  ],
+  tailFeed: 4,
+};
+
+/**
+ * Ticket fields as the template sees them. Modifiers become objects so the
+ * template can bind them as {{text}}, and items without notes get null so
+ * they do not pick up the notes of the whole order.
+ */
+function kitchenTicketData(ticket: KitchenTicket, options: FormatOptions): Record<string, unknown> {
+  return {
+    ...documentData(ticket, options),
+    items: ticket.items?.map(item => ({
+      ...item,
+      notes: item.notes ?? null,
+      modifiers: item.modifiers?.map(text => ({ text })) ?? null,
+    })),
+  };
+}
+
+/**
+ * Returns the printer bytes for a kitchen ticket.
+ */
+export function formatKitchenTicket(
+  ticket: KitchenTicket,
+  printerWidth?: number,
+  options: FormatOptions = {}
+): Uint8Array {
+  return renderDocument(KITCHEN_TICKET_TEMPLATE, ticket, kitchenTicketData, printerWidth, options);
+}
+
+/**
+ * Checks a kitchen ticket received over the network before it is printed.
+ */
+export function validateKitchenTicket(value: unknown): InvoiceFieldError[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ field: '', message: 'kitchen ticket must be a JSON object' }];
+  }
+  const ticket = value as Record<string, any>;
+  const errors = validatePrintSettings(ticket);
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  ['table', 'server', 'station', 'Date', 'notes'].forEach(field => {
+    if (ticket[field] != null && typeof ticket[field] !== 'string') {
+      fail(field, 'must be a string');
+    }
+  });
+  if (ticket.orderNumber == null || ticket.orderNumber === '') {
+    fail('orderNumber', 'is required');
+  } else if (typeof ticket.orderNumber !== 'string' && typeof ticket.orderNumber !== 'number') {
+    fail('orderNumber', 'must be a string or a number');
+  }
+  if (!Array.isArray(ticket.items) || ticket.items.length === 0) {
+    fail('items', 'must list at least one item');
+    return errors;
+  }
+  ticket.items.forEach((item: any, index: number) => {
+    const at = `items[${index}]`;
+    if (!item || typeof item !== 'object') {
+      fail(at, 'must be an object');
+      return;
+    }
+    if (typeof item.name !== 'string' || item.name === '') {
+      fail(`${at}.name`, 'is required');
+    }
+    if (typeof item.quantity !== 'number' || !Number.isFinite(item.quantity) || item.quantity <= 0) {
+      fail(`${at}.quantity`, 'must be a number greater than zero');
+    }
+    if (item.notes != null && typeof item.notes !== 'string') {
+      fail(`${at}.notes`, 'must be a string');
+    }
+    if (
+      item.modifiers != null &&
+      (!Array.isArray(item.modifiers) || item.modifiers.some((modifier: unknown) => typeof modifier !== 'string'))
+    ) {
+      fail(`${at}.modifiers`, 'must be a list of strings');
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,138 @@
+// money.ts
+import { DEFAULT_LANGUAGE, LanguageCode, isLanguageCode } from './receiptLabels';
+
+// Amounts are handled as whole minor units (cents) in a bigint, so sums and
+// conversions never pick up binary floating point noise.
+
+export type CurrencyCode = 'ALL' | 'EUR' | 'USD' | 'GBP';
+
+export interface Currency {
+  symbol: string;
+  // Whether the symbol goes before or after the amount.
+  position: 'prefix' | 'suffix';
+  decimals: number;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'ALL';
+
+export const CURRENCIES: Record<CurrencyCode, Currency> = {
+  ALL: { symbol: 'L', position: 'suffix', decimals: 2 },
+  EUR: { symbol: '€', position: 'suffix', decimals: 2 },
+  USD: { symbol: '$', position: 'prefix', decimals: 2 },
+  GBP: { symbol: '£', position: 'prefix', decimals: 2 },
+};
+
+export interface NumberFormat {
+  decimal: string;
+  group: string;
+}
+
+// Separators per receipt language. Spaces inside amounts are no-break spaces
+// so an amount is never wrapped across lines.
+export const NUMBER_FORMATS: Record<LanguageCode, NumberFormat> = {
+  sq: { decimal: ',', group: '\u00A0' },
+  en: { decimal: '.', group: ',' },
+  it: { decimal: ',', group: '.' },
+};
+
+export function isCurrencyCode(code: unknown): code is CurrencyCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+/**
+ * Returns the currency settings; unknown codes print as a suffix, e.g. "5.00 CHF".
+ */
+export function currencyInfo(code?: string): Currency {
+  if (code == null) {
+    return CURRENCIES[DEFAULT_CURRENCY];
+  }
+  return isCurrencyCode(code) ? CURRENCIES[code] : { symbol: '\u00A0' + code, position: 'suffix', decimals: 2 };
+}
+
+const DECIMAL = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parses a decimal number into an integer mantissa and a power of ten scale,
+ * so "12.345" becomes { digits: 12345n, scale: 3 }.
+ */
+function parseDecimal(value: number | string): { digits: bigint; scale: number } {
+  const text = String(value).trim();
+  const match = DECIMAL.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${text}`);
+  }
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  let digits = BigInt((whole + fraction) || '0');
+  let scale = fraction.length - parseInt(exponent, 10);
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { digits: sign === '-' ? -digits : digits, scale };
+}
+
+/**
+ * Divides by a power of ten, rounding half away from zero.
+ */
+function roundScaled(digits: bigint, scale: number): bigint {
+  if (scale <= 0) {
+    return digits * 10n ** BigInt(-scale);
+  }
+  const divisor = 10n ** BigInt(scale);
+  const magnitude = digits < 0n ? -digits : digits;
+  const rounded = (magnitude + divisor / 2n) / divisor;
+  return digits < 0n ? -rounded : rounded;
+}
+
+/**
+ * Converts an amount to minor units, rounding half away from zero.
+ * Numbers are read from their shortest decimal form, so 5.499999 stays
+ * 5.499999 and rounds to 550 cents.
+ */
+export function toMinorUnits(value: number | string, decimals: number = 2): bigint {
+  const { digits, scale } = parseDecimal(value);
+  return roundScaled(digits, scale - decimals);
+}
+
+/**
+ * Multiplies minor units by a decimal rate, e.g. to convert EUR to Lek.
+ */
+export function convertMinorUnits(minor: bigint, rate: number | string): bigint {
+  const { digits, scale } = parseDecimal(rate);
+  return roundScaled(minor * digits, scale);
+}
+
+/**
+ * Returns minor units as a plain decimal string ("1234.50").
+ */
+export function minorUnitsToString(minor: bigint, decimals: number = 2): string {
+  const negative = minor < 0n;
+  const text = (negative ? -minor : minor).toString().padStart(decimals + 1, '0');
+  const whole = text.substring(0, text.length - decimals);
+  const fraction = text.substring(text.length - decimals);
+  return (negative ? '-' : '') + whole + (decimals > 0 ? '.' + fraction : '');
+}
+
+export interface MoneyFormatOptions {
+  currency?: string;
+  language?: string;
+  // Leave out the currency symbol.
+  plain?: boolean;
+}
+
+/**
+ * Formats an amount for printing with the language's separators and the
+ * currency symbol, e.g. "1 234,50L" or "$1,234.50".
+ */
+export function formatMoney(value: number | string | bigint, options: MoneyFormatOptions = {}): string {
+  const currency = currencyInfo(options.currency);
+  const format = NUMBER_FORMATS[isLanguageCode(options.language) ? options.language : DEFAULT_LANGUAGE];
+  const minor = typeof value === 'bigint' ? value : toMinorUnits(value, currency.decimals);
+  const [whole, fraction] = minorUnitsToString(minor < 0n ? -minor : minor, currency.decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+$)/g, format.group);
+  const amount = (minor < 0n ? '-' : '') + grouped + (fraction ? format.decimal + fraction : '');
+  if (options.plain) {
+    return amount;
+  }
+  return currency.position === 'prefix' ? currency.symbol + amount : amount + currency.symbol;
+}
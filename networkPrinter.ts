@@ -0,0 +1,95 @@
+// networkPrinter.ts
+import { Buffer } from 'buffer';
+
+// Port ESC/POS network printers accept raw print data on (RAW/JetDirect).
+export const RAW_PRINTER_PORT = 9100;
+
+export interface NetworkPrinterAddress {
+  host: string;
+  port?: number;
+}
+
+/**
+ * The part of a TCP socket the transport uses; sockets from
+ * react-native-tcp-socket and Node's net module both satisfy it.
+ */
+export interface PrinterSocket {
+  write(data: Uint8Array, encoding?: undefined, callback?: (err?: Error) => void): boolean;
+  end(): void;
+  destroy(): void;
+  on(event: 'error', listener: (err: Error) => void): unknown;
+}
+
+export type CreateConnection = (options: { host: string; port: number }, onConnect: () => void) => PrinterSocket;
+
+export interface NetworkWriteOptions {
+  createConnection: CreateConnection;
+  // Time allowed to open the connection in ms. Default is 5000.
+  connectTimeout?: number;
+  // Time allowed to hand all bytes to the printer in ms. Default is 10000.
+  writeTimeout?: number;
+}
+
+/**
+ * Parses "host" or "host:port"; the port defaults to 9100.
+ * Returns null when the text is not a usable address.
+ */
+export function parsePrinterAddress(text: string): NetworkPrinterAddress | null {
+  const match = /^\s*([^\s:]+)(?::(\d{1,5}))?\s*$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const port = match[2] ? parseInt(match[2], 10) : RAW_PRINTER_PORT;
+  return port > 0 && port < 65536 ? { host: match[1], port } : null;
+}
+
+/**
+ * Opens a connection to a network printer, streams the data and closes it.
+ * Rejects with "Connect timeout" or "Print timeout" when the printer does not
+ * answer in time; the socket is destroyed in every failure case.
+ */
+export function writeToNetworkPrinter(
+  address: NetworkPrinterAddress,
+  data: Uint8Array | number[],
+  options: NetworkWriteOptions,
+): Promise<void> {
+  const port = address.port ?? RAW_PRINTER_PORT;
+  const connectTimeout = options.connectTimeout ?? 5000;
+  const writeTimeout = options.writeTimeout ?? 10000;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (err?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      if (err) {
+        socket.destroy();
+        reject(err);
+      } else {
+        socket.end();
+        resolve();
+      }
+    };
+
+    const arm = (ms: number, message: string) => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => finish(new Error(message)), ms);
+    };
+
+    const socket = options.createConnection({ host: address.host, port }, () => {
+      arm(writeTimeout, 'Print timeout');
+      socket.write(Buffer.from(data), undefined, err => finish(err ?? undefined));
+    });
+    socket.on('error', err => finish(err));
+    arm(connectTimeout, 'Connect timeout');
+  });
+}
@@ -0,0 +1,116 @@
+// printHistory.ts
+import { PrintDocument } from './documents';
+import { QueueStorage } from './printQueue';
+
+export type PrintOutcome = 'printed' | 'failed';
+
+/**
+ * A print job as it left the queue.
+ */
+export interface PrintHistoryEntry {
+  // Id of the print job.
+  id: string;
+  invoice: PrintDocument;
+  // Profile id the job was pinned to; null for the app-wide printer.
+  printer: string | null;
+  // Printer name at the time of printing, for display.
+  printerName: string;
+  // When the job was queued and when it settled (ms since epoch).
+  createdAt: number;
+  settledAt: number;
+  outcome: PrintOutcome;
+  attempts: number;
+  error?: string;
+}
+
+export interface PrintHistoryOptions {
+  storage: QueueStorage;
+  storageKey?: string;
+  // Most entries kept; the oldest go first. Default is 200.
+  maxEntries?: number;
+  // Entries older than this are dropped, in ms. Default is 30 days.
+  maxAge?: number;
+  now?: () => number;
+  onChange?: (entries: PrintHistoryEntry[]) => void;
+}
+
+export interface PrintHistory {
+  load(): Promise<void>;
+  // Adds an entry, or replaces the one with the same id (a failed job printed on retry).
+  record(entry: PrintHistoryEntry): Promise<void>;
+  get(id: string): PrintHistoryEntry | null;
+  // Newest first.
+  getEntries(): PrintHistoryEntry[];
+  clear(): Promise<void>;
+}
+
+export const PRINT_HISTORY_STORAGE_KEY = 'printHistory';
+
+/**
+ * Returns the document to print again for a reprint: one receipt, marked as a
+ * copy, that leaves the cash drawer shut.
+ */
+export function reprintOf<T extends PrintDocument>(document: T): T {
+  return { ...document, copy: true, copies: 1, openDrawer: false };
+}
+
+/**
+ * Creates the log of settled print jobs persisted to storage, pruned to the
+ * retention limits whenever it changes.
+ */
+export function createPrintHistory(options: PrintHistoryOptions): PrintHistory {
+  const storageKey = options.storageKey ?? PRINT_HISTORY_STORAGE_KEY;
+  const maxEntries = options.maxEntries ?? 200;
+  const maxAge = options.maxAge ?? 30 * 24 * 60 * 60 * 1000;
+  const now = options.now ?? Date.now;
+  let entries: PrintHistoryEntry[] = [];
+
+  const prune = () => {
+    const cutoff = now() - maxAge;
+    entries = entries.filter(e => e.settledAt >= cutoff).slice(0, maxEntries);
+  };
+
+  const persist = async () => {
+    options.onChange?.(entries.slice());
+    try {
+      await options.storage.setItem(storageKey, JSON.stringify(entries));
+    } catch (err) {
+      console.error('Error saving print history:', err);
+    }
+  };
+
+  return {
+    async load() {
+      try {
+        const saved = await options.storage.getItem(storageKey);
+        const restored: PrintHistoryEntry[] = saved ? JSON.parse(saved) : [];
+        // Keep entries recorded before load() finished ahead of the restored ones.
+        const ids = new Set(entries.map(e => e.id));
+        entries = entries.concat(restored.filter(e => !ids.has(e.id)));
+      } catch (err) {
+        console.error('Error loading print history:', err);
+      }
+      prune();
+      options.onChange?.(entries.slice());
+    },
+
+    async record(entry) {
+      entries = [entry, ...entries.filter(e => e.id !== entry.id)];
+      prune();
+      await persist();
+    },
+
+    get(id) {
+      return entries.find(e => e.id === id) ?? null;
+    },
+
+    getEntries() {
+      return entries.slice();
+    },
+
+    async clear() {
+      entries = [];
+      await persist();
+    },
+  };
+}
@@ -0,0 +1,222 @@
+// printQueue.ts
+import { PrintDocument } from './documents';
+
+export type PrintJobStatus = 'pending' | 'failed';
+
+export interface PrintJob {
+  id: string;
+  invoice: PrintDocument;
+  status: PrintJobStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * Minimal key/value storage the queue persists to (AsyncStorage satisfies it).
+ */
+export interface QueueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export interface PrintQueueOptions {
+  storage: QueueStorage;
+  // Sends a single job to the printer; must reject when the job was not printed.
+  print: (job: PrintJob) => Promise<void>;
+  // Returns false while the job's printer is not connected; the queue then
+  // waits for resume().
+  isReady: (job: PrintJob) => boolean;
+  // Names the printer a job prints on. Jobs for the same printer print in
+  // arrival order; jobs for other printers go ahead while one waits. Default
+  // puts every job on one printer.
+  targetOf?: (job: PrintJob) => string | null | undefined;
+  storageKey?: string;
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  onChange?: (jobs: PrintJob[]) => void;
+  // Called when a job leaves the queue printed, or is given up on as failed.
+  onSettled?: (job: PrintJob, outcome: 'printed' | 'failed') => void;
+}
+
+export interface PrintQueue {
+  load(): Promise<void>;
+  enqueue(invoice: PrintDocument): Promise<PrintJob>;
+  resume(): void;
+  retry(id: string): Promise<void>;
+  discard(id: string): Promise<void>;
+  getJobs(): PrintJob[];
+}
+
+export const PRINT_QUEUE_STORAGE_KEY = 'printQueue';
+
+/**
+ * Returns the delay before the next attempt, doubling per failed attempt.
+ */
+export function backoffDelay(attempts: number, baseDelay: number, maxDelay: number): number {
+  return Math.min(baseDelay * Math.pow(2, Math.max(attempts - 1, 0)), maxDelay);
+}
+
+function createJobId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Creates a serialized print queue persisted to storage.
+ * Jobs are printed one at a time, in arrival order per printer. A failed job
+ * stays at the head of its printer's jobs and is retried with backoff once the
+ * printer is ready again; after maxAttempts it is marked failed and kept until
+ * retried or discarded. A printer that is not ready or backing off holds only
+ * its own jobs.
+ */
+export function createPrintQueue(options: PrintQueueOptions): PrintQueue {
+  const storageKey = options.storageKey ?? PRINT_QUEUE_STORAGE_KEY;
+  const maxAttempts = options.maxAttempts ?? 5;
+  const baseDelay = options.baseDelay ?? 2000;
+  const maxDelay = options.maxDelay ?? 60000;
+  const targetOf = options.targetOf ?? (() => null);
+
+  let jobs: PrintJob[] = [];
+  let draining = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const persist = async () => {
+    const snapshot = jobs.slice();
+    options.onChange?.(snapshot);
+    try {
+      await options.storage.setItem(storageKey, JSON.stringify(snapshot));
+    } catch (err) {
+      console.error('Error saving print queue:', err);
+    }
+  };
+
+  const schedule = (delay: number) => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      drain();
+    }, delay);
+  };
+
+  // The first job of each printer that is ready and due; otherwise when the
+  // earliest backing-off job is due.
+  const nextJob = (): { job?: PrintJob; dueAt?: number } => {
+    const now = Date.now();
+    const seen = new Set<string | null>();
+    let dueAt: number | undefined;
+    for (const job of jobs) {
+      const target = targetOf(job) ?? null;
+      if (job.status !== 'pending' || seen.has(target)) {
+        continue;
+      }
+      // Later jobs for this printer wait behind this one.
+      seen.add(target);
+      if (!options.isReady(job)) {
+        continue;
+      }
+      if (job.nextAttemptAt > now) {
+        dueAt = Math.min(dueAt ?? Infinity, job.nextAttemptAt);
+        continue;
+      }
+      return { job };
+    }
+    return { dueAt };
+  };
+
+  const drain = async (): Promise<void> => {
+    if (draining) {
+      return;
+    }
+    draining = true;
+    try {
+      while (true) {
+        const { job, dueAt } = nextJob();
+        if (!job) {
+          if (dueAt !== undefined) {
+            schedule(Math.max(0, dueAt - Date.now()));
+          }
+          break;
+        }
+        try {
+          await options.print(job);
+          jobs = jobs.filter(j => j.id !== job.id);
+          job.attempts += 1;
+          options.onSettled?.(job, 'printed');
+        } catch (err: any) {
+          job.attempts += 1;
+          job.lastError = err?.message ?? String(err);
+          if (job.attempts >= maxAttempts) {
+            job.status = 'failed';
+            options.onSettled?.(job, 'failed');
+          } else {
+            job.nextAttemptAt = Date.now() + backoffDelay(job.attempts, baseDelay, maxDelay);
+          }
+        }
+        await persist();
+      }
+    } finally {
+      draining = false;
+    }
+  };
+
+  return {
+    async load() {
+      try {
+        const saved = await options.storage.getItem(storageKey);
+        const restored: PrintJob[] = saved ? JSON.parse(saved) : [];
+        // Keep jobs enqueued before load() finished after the restored ones.
+        const ids = new Set(restored.map(j => j.id));
+        jobs = restored.concat(jobs.filter(j => !ids.has(j.id)));
+      } catch (err) {
+        console.error('Error loading print queue:', err);
+      }
+      options.onChange?.(jobs.slice());
+      drain();
+    },
+
+    async enqueue(invoice: PrintDocument) {
+      const now = Date.now();
+      const job: PrintJob = {
+        id: createJobId(),
+        invoice,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      jobs.push(job);
+      await persist();
+      drain();
+      return job;
+    },
+
+    resume() {
+      drain();
+    },
+
+    async retry(id: string) {
+      const job = jobs.find(j => j.id === id);
+      if (!job) {
+        return;
+      }
+      job.status = 'pending';
+      job.attempts = 0;
+      job.nextAttemptAt = Date.now();
+      await persist();
+      drain();
+    },
+
+    async discard(id: string) {
+      jobs = jobs.filter(j => j.id !== id);
+      await persist();
+    },
+
+    getJobs() {
+      return jobs.slice();
+    },
+  };
+}
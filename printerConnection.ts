@@ -0,0 +1,285 @@
+// printerConnection.ts
+import { Buffer } from 'buffer';
+import {
+  DEFAULT_BLE_MTU,
+  PREFERRED_BLE_MTU,
+  chunkSizeForMtu,
+  hasCharacteristicProperty,
+  writeChunked,
+} from './bleWriter';
+import { CreateConnection, NetworkPrinterAddress, writeToNetworkPrinter } from './networkPrinter';
+import { PrinterTransport } from './printerProfiles';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+/**
+ * A link to one printer, whatever the transport.
+ */
+export interface PrinterConnection {
+  readonly transport: PrinterTransport;
+  readonly deviceId: string;
+  connect(): Promise<void>;
+  // Sends raw printer bytes; rejects when they were not delivered. Writes
+  // run one after another, so one never lands between the chunks of another.
+  write(data: Uint8Array | number[]): Promise<void>;
+  disconnect(): Promise<void>;
+  status(): ConnectionStatus;
+  // True while a write is being sent or waiting for an earlier one.
+  busy(): boolean;
+}
+
+interface WriteLock {
+  run(write: () => Promise<void>): Promise<void>;
+  busy(): boolean;
+}
+
+/**
+ * Runs writes one at a time in call order; a failed write does not stop the
+ * ones after it.
+ */
+function createWriteLock(): WriteLock {
+  let tail: Promise<void> = Promise.resolve();
+  let pending = 0;
+  return {
+    run(write) {
+      pending += 1;
+      const result = tail.then(write).finally(() => {
+        pending -= 1;
+      });
+      tail = result.catch(() => {});
+      return result;
+    },
+    busy: () => pending > 0,
+  };
+}
+
+// The BLE characteristic used for printing and how to write to it.
+export interface WriteCandidate {
+  service: string;
+  characteristic: string;
+  withResponse: boolean;
+  mtu: number;
+  // Characteristic the printer sends status replies on, if it has one.
+  notify?: { service: string; characteristic: string };
+}
+
+/**
+ * The parts of react-native-ble-manager the BLE transport uses.
+ */
+export interface BleApi {
+  connect(id: string): Promise<void>;
+  retrieveServices(id: string): Promise<{ characteristics?: any[] }>;
+  requestMTU(id: string, mtu: number): Promise<number>;
+  write(id: string, service: string, characteristic: string, data: number[], maxByteSize?: number): Promise<void>;
+  writeWithoutResponse(
+    id: string,
+    service: string,
+    characteristic: string,
+    data: number[],
+    maxByteSize?: number,
+  ): Promise<void>;
+  disconnect(id: string): Promise<void>;
+}
+
+export interface BleConnectionOptions {
+  ble: BleApi;
+  // Ask for a larger MTU after connecting (Android only).
+  negotiateMtu?: boolean;
+  // Time to let services be discovered after connecting, in ms. Default is 1000.
+  discoveryDelay?: number;
+}
+
+export interface BleConnection extends PrinterConnection {
+  // The characteristic chosen on connect, or null while disconnected.
+  candidate(): WriteCandidate | null;
+}
+
+export function isBleConnection(connection: PrinterConnection): connection is BleConnection {
+  return connection.transport === 'ble';
+}
+
+// Helper to check if a characteristic is writable.
+const isWritableCharacteristic = (char: any): boolean =>
+  hasCharacteristicProperty(char, 'write') || hasCharacteristicProperty(char, 'writeWithoutResponse');
+
+/**
+ * Bluetooth LE transport: prints on the first writable characteristic, in
+ * MTU-sized chunks.
+ */
+export function createBleConnection(deviceId: string, options: BleConnectionOptions): BleConnection {
+  const { ble } = options;
+  const lock = createWriteLock();
+  let state: ConnectionStatus = 'disconnected';
+  let candidate: WriteCandidate | null = null;
+
+  const selectCandidate = async (): Promise<WriteCandidate> => {
+    // Wait a bit for services to be discovered.
+    await new Promise(resolve => setTimeout(resolve, options.discoveryDelay ?? 1000));
+    const peripheralInfo = await ble.retrieveServices(deviceId);
+    const characteristics = peripheralInfo.characteristics ?? [];
+    if (characteristics.length === 0) {
+      throw new Error('No characteristics were discovered.');
+    }
+    const writable = characteristics.filter(isWritableCharacteristic);
+    if (writable.length === 0) {
+      throw new Error('This device does not support writable characteristics.');
+    }
+
+    let mtu = DEFAULT_BLE_MTU;
+    if (options.negotiateMtu) {
+      try {
+        mtu = await ble.requestMTU(deviceId, PREFERRED_BLE_MTU);
+      } catch (err) {
+        console.warn('MTU negotiation failed, using default:', err);
+      }
+    }
+
+    // Status replies come back on a notify characteristic, preferably in the same service.
+    const notifiable = characteristics.filter(
+      char => hasCharacteristicProperty(char, 'notify') || hasCharacteristicProperty(char, 'indicate'),
+    );
+    const notifyChar = notifiable.find(char => char.service === writable[0].service) ?? notifiable[0];
+    // Prefer acknowledged writes for flow control.
+    return {
+      service: writable[0].service,
+      characteristic: writable[0].characteristic,
+      withResponse: hasCharacteristicProperty(writable[0], 'write'),
+      mtu,
+      notify: notifyChar ? { service: notifyChar.service, characteristic: notifyChar.characteristic } : undefined,
+    };
+  };
+
+  return {
+    transport: 'ble',
+    deviceId,
+
+    async connect() {
+      state = 'connecting';
+      try {
+        await ble.connect(deviceId);
+        candidate = await selectCandidate();
+        state = 'connected';
+      } catch (err) {
+        state = 'disconnected';
+        candidate = null;
+        await ble.disconnect(deviceId).catch(() => {});
+        throw err;
+      }
+    },
+
+    write(data) {
+      return lock.run(async () => {
+        const target = candidate;
+        if (state !== 'connected' || !target) {
+          throw new Error('Printer is not connected');
+        }
+        // The timeout scales with the payload.
+        await writeChunked(Array.from(data), {
+          chunkSize: chunkSizeForMtu(target.mtu),
+          withResponse: target.withResponse,
+          write: (chunk, withResponse) =>
+            withResponse
+              ? ble.write(deviceId, target.service, target.characteristic, chunk, chunk.length)
+              : ble.writeWithoutResponse(deviceId, target.service, target.characteristic, chunk, chunk.length),
+        });
+      });
+    },
+
+    async disconnect() {
+      state = 'disconnected';
+      candidate = null;
+      await ble.disconnect(deviceId);
+    },
+
+    status: () => state,
+    busy: lock.busy,
+    candidate: () => candidate,
+  };
+}
+
+/**
+ * The parts of react-native-bluetooth-classic the SPP transport uses.
+ */
+export interface ClassicApi {
+  connectToDevice(address: string): Promise<unknown>;
+  writeToDevice(address: string, message: string, encoding?: 'base64'): Promise<boolean>;
+  disconnectFromDevice(address: string): Promise<boolean>;
+}
+
+/**
+ * Bluetooth Classic transport over the serial port profile (SPP); the device
+ * id is the printer's MAC address. The printer must be paired first.
+ */
+export function createSppConnection(address: string, classic: ClassicApi): PrinterConnection {
+  const lock = createWriteLock();
+  let state: ConnectionStatus = 'disconnected';
+
+  return {
+    transport: 'spp',
+    deviceId: address,
+
+    async connect() {
+      state = 'connecting';
+      try {
+        await classic.connectToDevice(address);
+        state = 'connected';
+      } catch (err) {
+        state = 'disconnected';
+        throw err;
+      }
+    },
+
+    write(data) {
+      return lock.run(async () => {
+        if (state !== 'connected') {
+          throw new Error('Printer is not connected');
+        }
+        // Sent as base64 so bytes above 0x7F arrive unchanged.
+        const written = await classic.writeToDevice(address, Buffer.from(data).toString('base64'), 'base64');
+        if (!written) {
+          throw new Error('Write to printer failed');
+        }
+      });
+    },
+
+    async disconnect() {
+      state = 'disconnected';
+      await classic.disconnectFromDevice(address);
+    },
+
+    status: () => state,
+    busy: lock.busy,
+  };
+}
+
+/**
+ * Network transport for RAW port printers. Each write opens its own socket,
+ * so connect() only marks the printer as in use.
+ */
+export function createTcpConnection(
+  address: NetworkPrinterAddress,
+  createConnection: CreateConnection,
+): PrinterConnection {
+  const lock = createWriteLock();
+  let state: ConnectionStatus = 'disconnected';
+
+  return {
+    transport: 'tcp',
+    deviceId: `${address.host}:${address.port}`,
+
+    async connect() {
+      state = 'connected';
+    },
+
+    write(data) {
+      return lock.run(() => writeToNetworkPrinter(address, data, { createConnection }));
+    },
+
+    async disconnect() {
+      state = 'disconnected';
+    },
+
+    status: () => state,
+    busy: lock.busy,
+  };
+}
@@ -0,0 +1,154 @@
+// printerProfiles.ts
+import { CodePageName } from './codePages';
+import { CutMode, DrawerPulse } from './escpos-commands';
+import { QueueStorage } from './printQueue';
+import { LanguageCode } from './receiptLabels';
+import { ReceiptTemplate } from './receiptTemplate';
+
+// How the app reaches a printer: Bluetooth LE, Bluetooth Classic (SPP), or
+// raw TCP (port 9100).
+export type PrinterTransport = 'ble' | 'spp' | 'tcp';
+
+export const PRINTER_TRANSPORTS: PrinterTransport[] = ['ble', 'spp', 'tcp'];
+
+/**
+ * Hardware a printer has beyond printing.
+ */
+export interface PrinterCapabilities {
+  cutter: CutMode | 'none';
+  // Cash drawer wired to the printer's drawer port, or null.
+  drawer: DrawerPulse | null;
+}
+
+export const NO_CAPABILITIES: PrinterCapabilities = { cutter: 'none', drawer: null };
+
+/**
+ * A named printer and the settings its receipts are formatted with.
+ * Unset settings fall back to the app-wide printer settings.
+ */
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  // What the printer is used for, e.g. "receipt" or "kitchen".
+  role?: string;
+  transport: PrinterTransport;
+  // BLE device id, Bluetooth Classic MAC address, or "host:port" for network printers.
+  deviceId: string;
+  deviceName?: string;
+  // Network printer address (transport 'tcp').
+  host?: string;
+  port?: number;
+  width?: number;
+  codePage?: CodePageName;
+  language?: LanguageCode;
+  template?: ReceiptTemplate;
+  capabilities?: PrinterCapabilities;
+}
+
+export interface PrinterProfileState {
+  profiles: PrinterProfile[];
+  defaultId: string | null;
+}
+
+export interface PrinterProfileStoreOptions {
+  storage: QueueStorage;
+  storageKey?: string;
+  onChange?: (state: PrinterProfileState) => void;
+}
+
+export interface PrinterProfileStore {
+  load(): Promise<void>;
+  // Adds a profile, or replaces the one with the same id.
+  save(profile: PrinterProfile): Promise<void>;
+  remove(id: string): Promise<void>;
+  setDefault(id: string): Promise<void>;
+  /**
+   * Finds the profile a job should print on: by id, name or role (names and
+   * roles ignore case), or the default profile when no target is given.
+   * Returns null when nothing matches.
+   */
+  resolve(target?: string | null): PrinterProfile | null;
+  getState(): PrinterProfileState;
+}
+
+export const PRINTER_PROFILES_STORAGE_KEY = 'printerProfiles';
+
+export function isPrinterTransport(value: unknown): value is PrinterTransport {
+  return typeof value === 'string' && (PRINTER_TRANSPORTS as string[]).includes(value);
+}
+
+export function createProfileId(): string {
+  return 'p' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+/**
+ * Creates the store of printer profiles persisted to storage.
+ * The first profile saved becomes the default.
+ */
+export function createPrinterProfileStore(options: PrinterProfileStoreOptions): PrinterProfileStore {
+  const storageKey = options.storageKey ?? PRINTER_PROFILES_STORAGE_KEY;
+  let state: PrinterProfileState = { profiles: [], defaultId: null };
+
+  const persist = async () => {
+    options.onChange?.(state);
+    await options.storage.setItem(storageKey, JSON.stringify(state));
+  };
+
+  return {
+    async load() {
+      try {
+        const saved = await options.storage.getItem(storageKey);
+        if (saved) {
+          state = JSON.parse(saved);
+        }
+      } catch (err) {
+        console.error('Error loading printer profiles:', err);
+      }
+      options.onChange?.(state);
+    },
+
+    async save(profile) {
+      const exists = state.profiles.some(p => p.id === profile.id);
+      state = {
+        profiles: exists ? state.profiles.map(p => (p.id === profile.id ? profile : p)) : [...state.profiles, profile],
+        defaultId: state.defaultId ?? profile.id,
+      };
+      await persist();
+    },
+
+    async remove(id) {
+      const profiles = state.profiles.filter(p => p.id !== id);
+      state = {
+        profiles,
+        defaultId: state.defaultId === id ? profiles[0]?.id ?? null : state.defaultId,
+      };
+      await persist();
+    },
+
+    async setDefault(id) {
+      if (!state.profiles.some(p => p.id === id)) {
+        throw new Error(`Unknown printer profile: ${id}`);
+      }
+      state = { ...state, defaultId: id };
+      await persist();
+    },
+
+    resolve(target) {
+      const { profiles, defaultId } = state;
+      if (target == null || target === '') {
+        return profiles.find(p => p.id === defaultId) ?? null;
+      }
+      const wanted = target.toLowerCase();
+      return (
+        profiles.find(p => p.id === target) ??
+        profiles.find(p => p.name.toLowerCase() === wanted) ??
+        profiles.find(p => p.role?.toLowerCase() === wanted) ??
+        null
+      );
+    },
+
+    getState() {
+      return state;
+    },
+  };
+}
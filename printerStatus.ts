@@ -0,0 +1,203 @@
+// printerStatus.ts
+import { transmitStatus } from './escpos-commands';
+
+export interface PrinterStatus {
+  // False when the printer reports offline or stops answering status requests.
+  online: boolean;
+  paperOut: boolean;
+  paperNearEnd: boolean;
+  coverOpen: boolean;
+  // Cutter, mechanical or other printer-reported error.
+  error: boolean;
+  // Time of the last completed poll, or null before the first one.
+  checkedAt: number | null;
+}
+
+export const UNKNOWN_STATUS: PrinterStatus = {
+  online: false,
+  paperOut: false,
+  paperNearEnd: false,
+  coverOpen: false,
+  error: false,
+  checkedAt: null,
+};
+
+// DLE EOT requests sent on each poll, in order.
+const STATUS_REQUESTS = [1, 2, 4];
+
+/**
+ * Status bytes always have bits 1 and 4 set and bits 0 and 7 clear;
+ * anything else on the notify characteristic is not a status reply.
+ */
+export function isStatusByte(byte: number): boolean {
+  return (byte & 0x93) === 0x12;
+}
+
+/**
+ * Updates a status with the reply to DLE EOT n.
+ */
+export function applyStatusReply(status: PrinterStatus, n: number, byte: number): PrinterStatus {
+  switch (n) {
+    case 1:
+      return { ...status, online: (byte & 0x08) === 0 };
+    case 2:
+      return { ...status, coverOpen: (byte & 0x04) !== 0, paperOut: (byte & 0x20) !== 0, error: (byte & 0x40) !== 0 };
+    case 3:
+      return { ...status, error: (byte & 0x6c) !== 0 };
+    case 4:
+      return { ...status, paperNearEnd: (byte & 0x0c) !== 0, paperOut: status.paperOut || (byte & 0x60) !== 0 };
+    default:
+      return status;
+  }
+}
+
+/**
+ * Returns a short description of the status, for display.
+ */
+export function describeStatus(status: PrinterStatus): string {
+  if (status.checkedAt == null) {
+    return 'Unknown';
+  }
+  if (!status.online) {
+    return 'Offline';
+  }
+  const problems = [
+    status.coverOpen && 'cover open',
+    status.paperOut && 'paper out',
+    !status.paperOut && status.paperNearEnd && 'paper near end',
+    status.error && 'error',
+  ].filter(Boolean);
+  return problems.length > 0 ? 'Online, ' + problems.join(', ') : 'Ready';
+}
+
+export interface StatusPollerOptions {
+  // Writes a request to the printer.
+  send: (data: number[]) => Promise<void>;
+  // Time between polls in ms. Default is 5000.
+  interval?: number;
+  // Time to wait for each reply in ms, from when the request was sent. Default is 1500.
+  replyTimeout?: number;
+  // True while a print job is being written. Polls are skipped then, and a
+  // reply missed because of one does not mark the printer offline.
+  isBusy?: () => boolean;
+  onChange?: (status: PrinterStatus) => void;
+}
+
+export interface StatusPoller {
+  start(): void;
+  stop(): void;
+  // Sends the status requests now and resolves with the new status.
+  poll(): Promise<PrinterStatus>;
+  // Feeds bytes received on the notify characteristic.
+  receive(data: ArrayLike<number>): void;
+  getStatus(): PrinterStatus;
+}
+
+/**
+ * Polls the printer with DLE EOT requests. Replies arrive separately, through
+ * receive(), and are matched to requests in order; a request that gets no
+ * reply marks the printer offline, unless the printer was busy printing.
+ */
+export function createStatusPoller(options: StatusPollerOptions): StatusPoller {
+  const interval = options.interval ?? 5000;
+  const replyTimeout = options.replyTimeout ?? 1500;
+  let status: PrinterStatus = UNKNOWN_STATUS;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling: Promise<PrinterStatus> | null = null;
+  let waiting: ((byte: number) => void) | null = null;
+
+  const update = (next: PrinterStatus) => {
+    status = next;
+    options.onChange?.(status);
+  };
+
+  const isBusy = () => options.isBusy?.() ?? false;
+
+  // Resolves with the reply, null when none came in time, or -1 when the
+  // request could not be sent. The send may wait behind a print job, so the
+  // reply timeout only starts once it went out.
+  const request = (n: number): Promise<number | null> =>
+    new Promise(resolve => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      waiting = byte => {
+        clearTimeout(timeout);
+        waiting = null;
+        resolve(byte);
+      };
+      const command = transmitStatus(n);
+      options.send(Array.from(command, c => c.charCodeAt(0))).then(
+        () => {
+          if (waiting) {
+            timeout = setTimeout(() => {
+              waiting = null;
+              resolve(null);
+            }, replyTimeout);
+          }
+        },
+        err => {
+          console.warn('Status request failed:', err);
+          waiting?.(-1);
+        }
+      );
+    });
+
+  const runPoll = async (): Promise<PrinterStatus> => {
+    let next: PrinterStatus = { ...UNKNOWN_STATUS, online: true };
+    for (const n of STATUS_REQUESTS) {
+      const byte = await request(n);
+      if (byte == null && isBusy()) {
+        // The printer is busy with a job, not gone; try again next time.
+        return status;
+      }
+      if (byte == null || byte < 0) {
+        // Keep the last known flags; they may still be what stopped it.
+        next = { ...status, online: false };
+        break;
+      }
+      next = applyStatusReply(next, n, byte);
+    }
+    update({ ...next, checkedAt: Date.now() });
+    return status;
+  };
+
+  const poller: StatusPoller = {
+    start() {
+      if (timer) {
+        return;
+      }
+      poller.poll();
+      timer = setInterval(() => poller.poll(), interval);
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+      }
+      timer = null;
+    },
+
+    poll() {
+      if (!polling && isBusy()) {
+        return Promise.resolve(status);
+      }
+      // Overlapping polls would mix up which reply answers which request.
+      if (!polling) {
+        polling = runPoll().finally(() => {
+          polling = null;
+        });
+      }
+      return polling;
+    },
+
+    receive(data) {
+      for (let i = 0; i < data.length; i++) {
+        if (waiting && isStatusByte(data[i])) {
+          waiting(data[i]);
+        }
+      }
+    },
+
+    getStatus: () => status,
+  };
+  return poller;
+}
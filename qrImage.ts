@@ -1,11 +1,51 @@
 // qrImage.ts
 import QRCode from 'qrcode';
+import { MonochromeBitmap } from './escpos-commands';
 
-export async function generateQRCodeDataUrl(data: string, width: number = 512): Promise<string> {
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export async function generateQRCodeDataUrl(
+  data: string,
+  width: number = 512,
+  errorCorrectionLevel: QRErrorCorrectionLevel = 'L',
+): Promise<string> {
   const options = {
-    errorCorrectionLevel: 'L' as const,
+    errorCorrectionLevel,
     type: 'image/png' as const,
     width,
   };
   return await QRCode.toDataURL(data, options);
 }
+
+/**
+ * Renders a QR code straight to a printer bitmap (no canvas needed).
+ * @param data The data to encode.
+ * @param size Target width in dots; each module gets a whole number of dots.
+ * @param errorCorrectionLevel QR error correction level. Default is 'M'.
+ * @param margin Quiet zone in modules. Default is 2.
+ */
+export function generateQRCodeBitmap(
+  data: string,
+  size: number = 256,
+  errorCorrectionLevel: QRErrorCorrectionLevel = 'M',
+  margin: number = 2,
+): MonochromeBitmap {
+  const qr = QRCode.create(data, { errorCorrectionLevel });
+  const modules = qr.modules.size;
+  const totalModules = modules + margin * 2;
+  const scale = Math.max(1, Math.floor(size / totalModules));
+  const width = totalModules * scale;
+  const bitmap = new Uint8Array(width * width);
+  for (let row = 0; row < modules; row++) {
+    for (let col = 0; col < modules; col++) {
+      if (!qr.modules.get(row, col)) {
+        continue;
+      }
+      for (let dy = 0; dy < scale; dy++) {
+        const offset = ((row + margin) * scale + dy) * width + (col + margin) * scale;
+        bitmap.fill(1, offset, offset + scale);
+      }
+    }
+  }
+  return { width, height: width, data: bitmap };
+}
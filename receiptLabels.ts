@@ -0,0 +1,162 @@
+// receiptLabels.ts
+
+export type LanguageCode = 'sq' | 'en' | 'it';
+
+// Every fixed text printed on a receipt. Templates reach these as
+// {{label.<key>}}.
+export interface ReceiptLabels {
+  invoiceNumber: string;
+  businessUnit: string;
+  operatorCode: string;
+  date: string;
+  billingPeriod: string;
+  taxPointDate: string;
+  totalNoVat: string;
+  totalDiscount: string;
+  vat: string;
+  total: string;
+  totalLek: string;
+  exchangeRate: string;
+  // Line item table headers, and the discount under a line.
+  item: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  discount: string;
+  // Credit notes.
+  creditNote: string;
+  originalInvoice: string;
+  reason: string;
+  // Kitchen tickets.
+  order: string;
+  table: string;
+  server: string;
+  notes: string;
+  // Cash deposit and withdrawal slips.
+  cashIn: string;
+  cashOut: string;
+  signature: string;
+  // Banner on reprinted receipts.
+  copy: string;
+}
+
+export interface LanguagePack {
+  label: string;
+  labels: ReceiptLabels;
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'sq';
+
+export const LANGUAGE_PACKS: Record<LanguageCode, LanguagePack> = {
+  sq: {
+    label: 'Shqip',
+    labels: {
+      invoiceNumber: 'Nr. Fatures',
+      businessUnit: 'Njesia e Biznesit',
+      operatorCode: 'Kodi Operatorit',
+      date: 'Data',
+      billingPeriod: 'Periudha e faturimit',
+      taxPointDate: 'Data e pikës tatimore',
+      totalNoVat: 'SHUMA PA TVSH',
+      totalDiscount: 'ZBRITJA TOTALE',
+      vat: 'TVSH',
+      total: 'SHUMA',
+      totalLek: 'SHUMA Leke',
+      exchangeRate: 'Kursi i kembimit',
+      item: 'Artikulli',
+      quantity: 'Sasia',
+      unitPrice: 'Cmimi',
+      amount: 'Vlera',
+      discount: 'Zbritje',
+      creditNote: 'FATURE KORRIGJUESE',
+      originalInvoice: 'Fatura origjinale',
+      reason: 'Arsyeja',
+      order: 'Porosia',
+      table: 'Tavolina',
+      server: 'Kamarieri',
+      notes: 'Shenime',
+      cashIn: 'DEPOZITIM',
+      cashOut: 'TERHEQJE',
+      signature: 'Nenshkrimi',
+      copy: 'KOPJE',
+    },
+  },
+  en: {
+    label: 'English',
+    labels: {
+      invoiceNumber: 'Invoice No.',
+      businessUnit: 'Business Unit',
+      operatorCode: 'Operator Code',
+      date: 'Date',
+      billingPeriod: 'Billing period',
+      taxPointDate: 'Tax point date',
+      totalNoVat: 'TOTAL EXCL. VAT',
+      totalDiscount: 'TOTAL DISCOUNT',
+      vat: 'VAT',
+      total: 'TOTAL',
+      totalLek: 'TOTAL ALL',
+      exchangeRate: 'Exchange rate',
+      item: 'Item',
+      quantity: 'Qty',
+      unitPrice: 'Price',
+      amount: 'Amount',
+      discount: 'Discount',
+      creditNote: 'CREDIT NOTE',
+      originalInvoice: 'Original invoice',
+      reason: 'Reason',
+      order: 'Order',
+      table: 'Table',
+      server: 'Server',
+      notes: 'Notes',
+      cashIn: 'CASH IN',
+      cashOut: 'CASH OUT',
+      signature: 'Signature',
+      copy: 'COPY',
+    },
+  },
+  it: {
+    label: 'Italiano',
+    labels: {
+      invoiceNumber: 'Nr. Fattura',
+      businessUnit: 'Unità Aziendale',
+      operatorCode: 'Codice Operatore',
+      date: 'Data',
+      billingPeriod: 'Periodo di fatturazione',
+      taxPointDate: 'Data di esigibilità IVA',
+      totalNoVat: 'TOTALE IMPONIBILE',
+      totalDiscount: 'SCONTO TOTALE',
+      vat: 'IVA',
+      total: 'TOTALE',
+      totalLek: 'TOTALE ALL',
+      exchangeRate: 'Tasso di cambio',
+      item: 'Articolo',
+      quantity: 'Qtà',
+      unitPrice: 'Prezzo',
+      amount: 'Importo',
+      discount: 'Sconto',
+      creditNote: 'NOTA DI CREDITO',
+      originalInvoice: 'Fattura originale',
+      reason: 'Causale',
+      order: 'Ordine',
+      table: 'Tavolo',
+      server: 'Cameriere',
+      notes: 'Note',
+      cashIn: 'VERSAMENTO',
+      cashOut: 'PRELIEVO',
+      signature: 'Firma',
+      copy: 'COPIA',
+    },
+  },
+};
+
+export function isLanguageCode(code: unknown): code is LanguageCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGE_PACKS, code);
+}
+
+/**
+ * Returns the labels for a language, falling back to the default language
+ * for unknown codes.
+ */
+export function receiptLabels(language?: string): ReceiptLabels {
+  return LANGUAGE_PACKS[isLanguageCode(language) ? language : DEFAULT_LANGUAGE].labels;
+}
@@ -0,0 +1,195 @@
+// receiptTable.ts
+import { Alignment } from './escposBuilder';
+
+/**
+ * A table column. Widths are in characters at the table's text scale.
+ */
+export interface TableColumn {
+  // Fixed width. Columns without one share the width the others leave. A
+  // wrapping column widens to fit the longest word of its cells.
+  width?: number;
+  // Share of the leftover width relative to the other growing columns. Default is 1.
+  grow?: number;
+  align?: Alignment;
+  // Text longer than the column wraps on word boundaries or is cut off. Default is wrap.
+  overflow?: 'wrap' | 'truncate';
+}
+
+// Style toggles (\u0001-\u0003) travel inside the text but take no width.
+const ZERO_WIDTH = /[\u0001-\u0003]/;
+
+// Runs of breakable spaces, and words; no-break spaces (U+00A0) belong to
+// the word, so amounts such as "2 469 129,50L" stay on one line.
+const TOKENS = /[^\S\u00A0]+|(?:\S|\u00A0)+/g;
+
+/**
+ * Returns the printed width of text, not counting style toggles.
+ */
+export function textWidth(text: string): number {
+  let width = 0;
+  for (let i = 0; i < text.length; i++) {
+    width += ZERO_WIDTH.test(text[i]) ? 0 : 1;
+  }
+  return width;
+}
+
+/**
+ * Returns the head of text that is at most width wide, and the rest.
+ */
+function splitAtWidth(text: string, width: number): [string, string] {
+  let used = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (!ZERO_WIDTH.test(text[i])) {
+      if (used === width) {
+        return [text.substring(0, i), text.substring(i)];
+      }
+      used += 1;
+    }
+  }
+  return [text, ''];
+}
+
+/**
+ * Closes the style toggles left open on each line and reopens them on the
+ * next, so every line can be printed on its own.
+ */
+function balanceToggles(lines: string[]): string[] {
+  let open = '';
+  return lines.map(line => {
+    const result = open + line;
+    for (let i = 0; i < line.length; i++) {
+      if (ZERO_WIDTH.test(line[i])) {
+        open = open.includes(line[i]) ? open.replace(line[i], '') : open + line[i];
+      }
+    }
+    return result + open;
+  });
+}
+
+/**
+ * Wraps text into lines at most width wide, breaking between words where it
+ * can and inside words longer than a line. Spaces at a break are dropped;
+ * line breaks in the text are kept. No-break spaces do not separate words.
+ */
+export function wrapWords(text: string, width: number): string[] {
+  const size = Math.max(1, width);
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    (paragraph.match(TOKENS) ?? []).forEach(token => {
+      if (/^[^\S\u00A0]/.test(token)) {
+        // Spaces that do not fit end the line.
+        if (textWidth(line) + textWidth(token) <= size) {
+          line += token;
+        } else if (line) {
+          lines.push(line);
+          line = '';
+        }
+        return;
+      }
+      if (line.trim() && textWidth(line) + textWidth(token) > size) {
+        lines.push(line.trimEnd());
+        line = '';
+      }
+      let word = token;
+      while (textWidth(line) + textWidth(word) > size) {
+        const [head, tail] = splitAtWidth(word, size - textWidth(line));
+        lines.push(line + head);
+        line = '';
+        word = tail;
+      }
+      line += word;
+    });
+    lines.push(line);
+  });
+  return balanceToggles(lines);
+}
+
+/**
+ * Pads text to width with the given alignment.
+ */
+export function alignText(text: string, width: number, align: Alignment = 'left'): string {
+  const space = Math.max(0, width - textWidth(text));
+  switch (align) {
+    case 'right':
+      return ' '.repeat(space) + text;
+    case 'center':
+      return ' '.repeat(Math.floor(space / 2)) + text + ' '.repeat(space - Math.floor(space / 2));
+    default:
+      return text + ' '.repeat(space);
+  }
+}
+
+/**
+ * Returns the width of the longest word in text, which wrapping cannot split.
+ */
+export function longestWord(text: string): number {
+  return Math.max(0, ...(text.match(TOKENS) ?? []).map(token => (/^[^\S\u00A0]/.test(token) ? 0 : textWidth(token))));
+}
+
+/**
+ * Shares a line of lineWidth characters out to the columns, with gap spaces
+ * between them. Fixed columns that wrap widen to the longest word of their
+ * cells in rows, so amounts are never split. When the fixed widths leave no
+ * room for the growing columns, the widest fixed columns give way.
+ */
+export function columnWidths(
+  columns: TableColumn[],
+  lineWidth: number,
+  gap: number = 1,
+  rows: string[][] = []
+): number[] {
+  const widths = columns.map((column, i) => {
+    if (column.width == null) {
+      return 0;
+    }
+    const fit = column.overflow === 'truncate' ? 0 : Math.max(0, ...rows.map(cells => longestWord(cells[i] ?? '')));
+    return Math.max(1, Math.floor(column.width), fit);
+  });
+  const growing = columns.map(column => (column.width == null ? column.grow ?? 1 : 0));
+  const totalGrow = growing.reduce((sum, grow) => sum + grow, 0);
+  const available = lineWidth - gap * Math.max(0, columns.length - 1);
+  // Every growing column keeps at least one character.
+  const minimum = growing.filter(grow => grow > 0).length;
+  while (widths.reduce((sum, w) => sum + w, 0) + minimum > available) {
+    const widest = widths.indexOf(Math.max(...widths));
+    if (widths[widest] <= 1) {
+      break;
+    }
+    widths[widest] -= 1;
+  }
+  const leftover = available - widths.reduce((sum, w) => sum + w, 0);
+  if (totalGrow > 0) {
+    const shares = growing.map(grow => Math.floor((leftover * grow) / totalGrow));
+    // Rounding leftovers go to the first growing column.
+    const first = growing.findIndex(grow => grow > 0);
+    shares[first] += leftover - shares.reduce((sum, share) => sum + share, 0);
+    shares.forEach((share, i) => {
+      if (growing[i] > 0) {
+        widths[i] = Math.max(1, share);
+      }
+    });
+  }
+  return widths;
+}
+
+/**
+ * Lays out one table row: each cell is wrapped or cut off to its column and
+ * aligned, and the cells are joined line by line. Returns the printed lines.
+ */
+export function layoutRow(cells: string[], columns: TableColumn[], widths: number[], gap: number = 1): string[] {
+  const cellLines = columns.map((column, i) => {
+    const text = cells[i] ?? '';
+    if (column.overflow === 'truncate') {
+      return wrapWords(splitAtWidth(text.split('\n')[0], widths[i])[0], widths[i]);
+    }
+    return wrapWords(text, widths[i]);
+  });
+  const rows = Math.max(...cellLines.map(lines => lines.length));
+  const lines: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    const cellsOfLine = columns.map((column, i) => alignText(cellLines[i][row] ?? '', widths[i], column.align));
+    lines.push(cellsOfLine.join(' '.repeat(gap)).trimEnd());
+  }
+  return lines;
+}
@@ -0,0 +1,422 @@
+// receiptTemplate.ts
+import { BARCODE_SYMBOLOGIES, BARCODE_TEXT_POSITIONS, BarcodeTextPosition, Font } from './escpos-commands';
+import { Alignment } from './escposBuilder';
+import { TableColumn } from './receiptTable';
+
+// Field paths that must all be present (not null/empty) for a section to
+// print; a leading "!" requires the field to be absent instead.
+export type TemplateCondition = string | string[];
+
+interface SectionBase {
+  if?: TemplateCondition;
+}
+
+// Text with {{field}} bindings, wrapped to the paper width.
+export interface TextSection extends SectionBase {
+  type: 'text';
+  text: string;
+  align?: Alignment;
+  bold?: boolean;
+  // Underline, true or 1 for 1 dot thick, 2 for 2 dots.
+  underline?: boolean | 1 | 2;
+  // White on black.
+  inverse?: boolean;
+  font?: Font;
+  upsideDown?: boolean;
+  // Character scale; a number scales both directions, [width, height] each on its own.
+  size?: number | [number, number];
+  // Style the text with **bold**, __underline__ and ==inverse== markup.
+  markup?: boolean;
+}
+
+// Left and right text on one line; the left side wraps.
+export interface LeftRightSection extends SectionBase {
+  type: 'leftRight';
+  left: string;
+  right: string;
+  bold?: boolean;
+  // See TextSection.markup.
+  markup?: boolean;
+  // Character scale; the line is laid out in the characters that fit at it.
+  size?: number | [number, number];
+}
+
+export interface DividerSection extends SectionBase {
+  type: 'divider';
+  char?: string;
+}
+
+export interface FeedSection extends SectionBase {
+  type: 'feed';
+  lines?: number;
+}
+
+export interface QRSection extends SectionBase {
+  type: 'qr';
+  data: string;
+  // Module size, or a binding such as "{{qrSize}}". Default is 7.
+  size?: number | string;
+  // L, M, Q or H, or a binding. Unset uses the default of the printer's QR mode.
+  errorCorrection?: string;
+}
+
+export interface PDF417Section extends SectionBase {
+  type: 'pdf417';
+  data: string;
+  // Module width 2-8, or a binding. Default is 3.
+  size?: number | string;
+  // Error correction level 0-8, or a binding. Default is 1.
+  errorLevel?: number | string;
+}
+
+export interface DataMatrixSection extends SectionBase {
+  type: 'dataMatrix';
+  data: string;
+  // Module size 2-16, or a binding. Default is 4.
+  size?: number | string;
+}
+
+// A 1D barcode, centered. Data that does not fit the symbology prints as text.
+export interface BarcodeSection extends SectionBase {
+  type: 'barcode';
+  data: string;
+  // CODE128, EAN13 or CODE39, or a binding such as "{{barcodeType}}". Default is CODE128.
+  symbology?: string;
+  // Bar height and narrow bar width in dots.
+  height?: number;
+  width?: number;
+  text?: BarcodeTextPosition;
+}
+
+export interface TableColumnTemplate extends TableColumn {
+  // Cell text with bindings to the item's fields.
+  text: string;
+  // Column title for the header row.
+  header?: string;
+  // See TextSection.markup.
+  markup?: boolean;
+  // Leaves the column out on paper narrower than this many characters, e.g. 42.
+  minPaper?: number;
+}
+
+// One row per element of an array field, laid out in columns; a header row
+// is printed first when any column has a header.
+export interface TableSection extends SectionBase {
+  type: 'table';
+  items: string;
+  where?: TemplateCondition;
+  columns: TableColumnTemplate[];
+  // Character scale of the rows; column widths are in characters at this scale.
+  size?: number | [number, number];
+  // Sections printed under each row, with the item's fields bound.
+  details?: TemplateSection[];
+  // Sections printed after the rows when at least one was printed.
+  after?: TemplateSection[];
+}
+
+// Repeats its sections for every element of an array field; inside, item
+// fields are bound directly and invoice fields stay reachable.
+export interface EachSection extends SectionBase {
+  type: 'each';
+  items: string;
+  // Condition checked per item; items failing it are skipped.
+  where?: TemplateCondition;
+  sections: TemplateSection[];
+  // Sections printed after the items when at least one was printed.
+  after?: TemplateSection[];
+}
+
+export type TemplateSection =
+  | TextSection
+  | LeftRightSection
+  | DividerSection
+  | FeedSection
+  | QRSection
+  | PDF417Section
+  | DataMatrixSection
+  | BarcodeSection
+  | TableSection
+  | EachSection;
+
+export interface ReceiptTemplate {
+  name?: string;
+  sections: TemplateSection[];
+  // Lines fed after the last section. Default is 4.
+  tailFeed?: number;
+}
+
+/**
+ * The standard invoice layout. Fixed texts come from the language pack.
+ */
+export const DEFAULT_TEMPLATE: ReceiptTemplate = {
+  name: 'default',
+  sections: [
+    { type: 'barcode', data: '{{barcodeTop}}', symbology: '{{barcodeType}}', if: 'barcodeTop' },
+    { type: 'text', text: '{{header}}', align: 'center', markup: true, if: 'header' },
+    { type: 'text', text: '{{tin}}', align: 'center', if: 'tin' },
+    { type: 'text', text: '{{address}}', align: 'center', if: 'address' },
+    { type: 'text', text: '{{invoiceType}}', align: 'center', bold: true, size: 2, if: 'invoiceType' },
+    { type: 'text', text: '{{label.invoiceNumber}}: {{invNumber}}', if: 'invNumber' },
+    { type: 'text', text: '{{fiscString}}', if: 'fiscString' },
+    { type: 'text', text: '{{label.businessUnit}}: {{buCode}}', if: 'buCode' },
+    { type: 'text', text: '{{label.operatorCode}}: {{opCode}}', if: 'opCode' },
+    { type: 'text', text: '{{label.date}}: {{Date}}', if: 'Date' },
+    { type: 'text', text: '{{label.billingPeriod}}: {{FiscDateRange}}', if: 'FiscDateRange' },
+    { type: 'text', text: '{{label.taxPointDate}}: {{TaxPointDate}}', if: 'TaxPointDate' },
+    { type: 'divider' },
+    {
+      type: 'table',
+      items: 'lines',
+      where: ['quantity', 'price'],
+      columns: [
+        { header: '{{label.item}}', text: '{{productName}}', markup: true },
+        { header: '{{label.quantity}}', text: '{{quantity}} {{uom}}', width: 7, align: 'right' },
+        { header: '{{label.unitPrice}}', text: '{{price|money}}', width: 10, align: 'right', minPaper: 42 },
+        { header: '{{label.amount}}', text: '{{lineTotal|money}}', width: 11, align: 'right' },
+      ],
+      details: [
+        { type: 'barcode', data: '{{ean}}', symbology: 'EAN13', height: 48, if: 'ean' },
+        {
+          type: 'leftRight',
+          left: '  {{label.discount}}',
+          right: '-{{discountAmount|money}}',
+          if: 'discountAmount',
+        },
+      ],
+      after: [{ type: 'divider' }],
+    },
+    { type: 'leftRight', left: '{{label.totalNoVat}}', right: '{{totalPriceNoVat|money}}', if: 'totalPriceNoVat' },
+    { type: 'leftRight', left: '{{label.totalDiscount}}', right: '{{totalDiscount|money}}', if: 'totalDiscount' },
+    {
+      type: 'table',
+      items: 'vat',
+      where: ['vatType', 'amount'],
+      columns: [
+        { text: '{{label.vat}} {{vatType}}' },
+        { text: '{{amount|money}}', width: 14, align: 'right' },
+      ],
+    },
+    {
+      type: 'leftRight',
+      left: '{{label.total}} {{foreignCurrency}}',
+      right: '{{totalPrice|money}}',
+      bold: true,
+      if: ['totalPrice', 'foreignCurrency'],
+    },
+    { type: 'leftRight', left: '{{label.totalLek}}', right: '{{totalPriceLek|money:ALL}}', bold: true, if: 'totalPriceLek' },
+    { type: 'text', text: '{{label.exchangeRate}}: 1 {{foreignCurrency}} = {{Exrate}} ALL', if: 'totalPriceLek' },
+    { type: 'leftRight', left: '{{label.totalLek}}', right: '{{totalPrice|money}}', bold: true, if: ['totalPrice', '!foreignCurrency'] },
+    { type: 'text', text: '{{CustomerName}}', align: 'center', if: 'CustomerName' },
+    { type: 'text', text: '{{CustomerTin}}', align: 'center', if: 'CustomerTin' },
+    { type: 'text', text: '{{CustomerContact}}', align: 'center', if: 'CustomerContact' },
+    { type: 'text', text: '{{CustomerAddress}}', align: 'center', if: 'CustomerAddress' },
+    { type: 'feed', lines: 1 },
+    { type: 'barcode', data: '{{barcodeBeforeQr}}', symbology: '{{barcodeType}}', if: 'barcodeBeforeQr' },
+    { type: 'pdf417', data: '{{pdf417}}', size: '{{pdf417Size}}', errorLevel: '{{pdf417ErrorLevel}}', if: 'pdf417' },
+    { type: 'dataMatrix', data: '{{dataMatrix}}', size: '{{dataMatrixSize}}', if: 'dataMatrix' },
+    { type: 'qr', data: '{{qrCode}}', size: '{{qrSize}}', errorCorrection: '{{qrErrorCorrection}}', if: 'qrCode' },
+    { type: 'text', text: 'IIC:{{IIC}}', align: 'center', if: 'IIC' },
+    { type: 'text', text: 'FIC:{{FIC}}', align: 'center', if: 'FIC' },
+    { type: 'text', text: 'EIC:{{EIC}}', align: 'center', if: 'EIC' },
+    { type: 'text', text: '{{Footer}}', align: 'center', markup: true, if: 'Footer' },
+    { type: 'barcode', data: '{{barcodeBottom}}', symbology: '{{barcodeType}}', if: 'barcodeBottom' },
+  ],
+  tailFeed: 4,
+};
+
+const ALIGNMENTS = ['left', 'center', 'right'];
+
+function isCondition(value: unknown): boolean {
+  return (
+    value === undefined ||
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every(v => typeof v === 'string'))
+  );
+}
+
+function isSize(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    (Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number'))
+  );
+}
+
+function checkColumns(columns: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    errors.push(`${path} must be a non-empty array`);
+    return;
+  }
+  columns.forEach((column: any, index) => {
+    const at = `${path}[${index}]`;
+    if (!column || typeof column !== 'object' || typeof column.text !== 'string') {
+      errors.push(`${at}.text must be a string`);
+      return;
+    }
+    if (column.header !== undefined && typeof column.header !== 'string') {
+      errors.push(`${at}.header must be a string`);
+    }
+    ['width', 'grow', 'minPaper'].forEach(field => {
+      if (column[field] !== undefined && (typeof column[field] !== 'number' || column[field] < 0)) {
+        errors.push(`${at}.${field} must be a positive number`);
+      }
+    });
+    if (column.align !== undefined && !ALIGNMENTS.includes(column.align)) {
+      errors.push(`${at}.align must be one of ${ALIGNMENTS.join(', ')}`);
+    }
+    if (column.overflow !== undefined && column.overflow !== 'wrap' && column.overflow !== 'truncate') {
+      errors.push(`${at}.overflow must be wrap or truncate`);
+    }
+  });
+}
+
+function checkSections(sections: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(sections)) {
+    errors.push(`${path} must be an array`);
+    return;
+  }
+  sections.forEach((section: any, index) => {
+    const at = `${path}[${index}]`;
+    if (!section || typeof section !== 'object') {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    if (!isCondition(section.if)) {
+      errors.push(`${at}.if must be a string or an array of strings`);
+    }
+    switch (section.type) {
+      case 'text':
+        if (typeof section.text !== 'string') {
+          errors.push(`${at}.text must be a string`);
+        }
+        if (section.align !== undefined && !ALIGNMENTS.includes(section.align)) {
+          errors.push(`${at}.align must be one of ${ALIGNMENTS.join(', ')}`);
+        }
+        if (section.size !== undefined && !isSize(section.size)) {
+          errors.push(`${at}.size must be a number or [width, height]`);
+        }
+        if (section.underline !== undefined && ![true, false, 1, 2].includes(section.underline)) {
+          errors.push(`${at}.underline must be true, false, 1 or 2`);
+        }
+        if (section.font !== undefined && section.font !== 'A' && section.font !== 'B') {
+          errors.push(`${at}.font must be A or B`);
+        }
+        ['bold', 'inverse', 'upsideDown', 'markup'].forEach(field => {
+          if (section[field] !== undefined && typeof section[field] !== 'boolean') {
+            errors.push(`${at}.${field} must be true or false`);
+          }
+        });
+        break;
+      case 'leftRight':
+        if (typeof section.left !== 'string' || typeof section.right !== 'string') {
+          errors.push(`${at}.left and ${at}.right must be strings`);
+        }
+        if (section.size !== undefined && !isSize(section.size)) {
+          errors.push(`${at}.size must be a number or [width, height]`);
+        }
+        ['bold', 'markup'].forEach(field => {
+          if (section[field] !== undefined && typeof section[field] !== 'boolean') {
+            errors.push(`${at}.${field} must be true or false`);
+          }
+        });
+        break;
+      case 'divider':
+        if (section.char !== undefined && (typeof section.char !== 'string' || section.char.length === 0)) {
+          errors.push(`${at}.char must be a non-empty string`);
+        }
+        break;
+      case 'feed':
+        if (section.lines !== undefined && typeof section.lines !== 'number') {
+          errors.push(`${at}.lines must be a number`);
+        }
+        break;
+      case 'qr':
+      case 'pdf417':
+      case 'dataMatrix':
+        if (typeof section.data !== 'string') {
+          errors.push(`${at}.data must be a string`);
+        }
+        ['size', 'errorLevel'].forEach(field => {
+          if (section[field] !== undefined && typeof section[field] !== 'number' && typeof section[field] !== 'string') {
+            errors.push(`${at}.${field} must be a number or a binding`);
+          }
+        });
+        if (
+          section.errorCorrection !== undefined &&
+          !(typeof section.errorCorrection === 'string' && /^([LMQH]|.*\{\{.*)$/.test(section.errorCorrection))
+        ) {
+          errors.push(`${at}.errorCorrection must be L, M, Q, H or a binding`);
+        }
+        break;
+      case 'barcode':
+        if (typeof section.data !== 'string') {
+          errors.push(`${at}.data must be a string`);
+        }
+        if (
+          section.symbology !== undefined &&
+          !(typeof section.symbology === 'string' && (BARCODE_SYMBOLOGIES.includes(section.symbology) || section.symbology.includes('{{')))
+        ) {
+          errors.push(`${at}.symbology must be one of ${BARCODE_SYMBOLOGIES.join(', ')} or a binding`);
+        }
+        ['height', 'width'].forEach(field => {
+          if (section[field] !== undefined && typeof section[field] !== 'number') {
+            errors.push(`${at}.${field} must be a number`);
+          }
+        });
+        if (section.text !== undefined && !BARCODE_TEXT_POSITIONS.includes(section.text)) {
+          errors.push(`${at}.text must be one of ${BARCODE_TEXT_POSITIONS.join(', ')}`);
+        }
+        break;
+      case 'table':
+        if (typeof section.items !== 'string') {
+          errors.push(`${at}.items must be a field path`);
+        }
+        if (!isCondition(section.where)) {
+          errors.push(`${at}.where must be a string or an array of strings`);
+        }
+        if (section.size !== undefined && !isSize(section.size)) {
+          errors.push(`${at}.size must be a number or [width, height]`);
+        }
+        checkColumns(section.columns, `${at}.columns`, errors);
+        ['details', 'after'].forEach(field => {
+          if (section[field] !== undefined) {
+            checkSections(section[field], `${at}.${field}`, errors);
+          }
+        });
+        break;
+      case 'each':
+        if (typeof section.items !== 'string') {
+          errors.push(`${at}.items must be a field path`);
+        }
+        if (!isCondition(section.where)) {
+          errors.push(`${at}.where must be a string or an array of strings`);
+        }
+        checkSections(section.sections, `${at}.sections`, errors);
+        if (section.after !== undefined) {
+          checkSections(section.after, `${at}.after`, errors);
+        }
+        break;
+      default:
+        errors.push(`${at}.type "${section.type}" is not a known section type`);
+    }
+  });
+}
+
+/**
+ * Checks that a parsed JSON value is a usable template.
+ * Returns the list of problems; an empty list means it is valid.
+ */
+export function validateTemplate(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['template must be an object'];
+  }
+  const template = value as Record<string, unknown>;
+  if (template.name !== undefined && typeof template.name !== 'string') {
+    errors.push('name must be a string');
+  }
+  if (template.tailFeed !== undefined && typeof template.tailFeed !== 'number') {
+    errors.push('tailFeed must be a number');
+  }
+  checkSections(template.sections, 'sections', errors);
+  return errors;
+}
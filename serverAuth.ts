@@ -0,0 +1,175 @@
+// serverAuth.ts
+import { Buffer } from 'buffer';
+import { HttpRequest, HttpResponse } from './httpServer';
+import { hmacSha256 } from './sha256';
+
+/**
+ * Who may use the local print server.
+ */
+export interface ServerSecurity {
+  // Pairing token: clients send it as "Authorization: Bearer <token>" or sign requests with it.
+  token: string;
+  // Origins ("https://shop.example.com") or host names browsers may call the server from.
+  allowedOrigins: string[];
+  // Listen on 127.0.0.1 only, so other devices cannot reach the server.
+  localhostOnly: boolean;
+}
+
+export interface RejectedRequest {
+  time: number;
+  method: string;
+  path: string;
+  origin: string | null;
+  remoteAddress: string | null;
+  status: number;
+  reason: string;
+}
+
+export interface RequestGuardOptions {
+  // Read on every request, so settings changes apply immediately.
+  getSecurity: () => ServerSecurity;
+  // Largest clock difference accepted on signed requests in ms. Default is 5 minutes.
+  maxSkew?: number;
+  now?: () => number;
+  onReject?: (rejected: RejectedRequest) => void;
+}
+
+// Signed requests carry the Unix time in seconds and the hex HMAC-SHA256 of
+// "<timestamp>\n<METHOD>\n<target>\n<body>" keyed with the pairing token.
+export const TIMESTAMP_HEADER = 'X-Signature-Timestamp';
+export const SIGNATURE_HEADER = 'X-Signature';
+
+/**
+ * Creates a random pairing token of 32 hex digits.
+ */
+export function createPairingToken(randomBytes: (size: number) => Uint8Array): string {
+  return Buffer.from(randomBytes(16)).toString('hex');
+}
+
+/**
+ * Returns the hex signature of a request; see SIGNATURE_HEADER.
+ */
+export function signRequest(token: string, timestamp: string, method: string, target: string, body: Buffer): string {
+  const message = Buffer.concat([Buffer.from(`${timestamp}\n${method.toUpperCase()}\n${target}\n`, 'utf8'), body]);
+  return Buffer.from(hmacSha256(Buffer.from(token, 'utf8'), message)).toString('hex');
+}
+
+// Compares in time independent of where the strings differ.
+const safeEqual = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i % (b.length || 1));
+  }
+  return diff === 0;
+};
+
+/**
+ * Returns an allowlist entry as it is compared: trimmed, lower-cased and
+ * without trailing slashes.
+ */
+export function normalizeOrigin(entry: string): string {
+  return entry.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * Returns true when a browser origin is on the allowlist. Entries are full
+ * origins, compared exactly, or host names matching any scheme; "*" allows
+ * every origin.
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  const wanted = origin.trim().toLowerCase();
+  const match = /^[a-z][a-z0-9+.-]*:\/\/([^/]+)$/.exec(wanted);
+  return allowedOrigins.some(entry => {
+    const allowed = normalizeOrigin(entry);
+    if (allowed === '*') {
+      return true;
+    }
+    return allowed.includes('://') ? allowed === wanted : !!match && match[1] === allowed;
+  });
+}
+
+/**
+ * CORS headers for a response: the request's origin is echoed back only when
+ * it is allowed.
+ */
+export function corsHeaders(req: HttpRequest, allowedOrigins: string[]): Record<string, string> {
+  const origin = req.headers.origin;
+  return {
+    ...(origin && isOriginAllowed(origin, allowedOrigins) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, Authorization, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
+    Vary: 'Origin',
+  };
+}
+
+/**
+ * Creates the router guard that rejects requests from origins not on the
+ * allowlist (403) and requests without a valid pairing token or signature
+ * (401). CORS preflights only need an allowed origin. A signature is accepted
+ * once, within maxSkew of its timestamp.
+ */
+export function createRequestGuard(options: RequestGuardOptions): (req: HttpRequest) => HttpResponse | null {
+  const maxSkew = options.maxSkew ?? 5 * 60 * 1000;
+  const now = options.now ?? Date.now;
+  // Signatures already used, with the time they expire.
+  const usedSignatures = new Map<string, number>();
+
+  const reject = (req: HttpRequest, status: number, reason: string): HttpResponse => {
+    options.onReject?.({
+      time: now(),
+      method: req.method,
+      path: req.path,
+      origin: req.headers.origin ?? null,
+      remoteAddress: req.remoteAddress ?? null,
+      status,
+      reason,
+    });
+    return {
+      status,
+      headers: { 'Content-Type': 'text/plain', ...(status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}) },
+      body: reason,
+    };
+  };
+
+  const checkSignature = (req: HttpRequest, token: string): string | null => {
+    const timestamp = req.headers[TIMESTAMP_HEADER.toLowerCase()];
+    const signature = (req.headers[SIGNATURE_HEADER.toLowerCase()] ?? '').toLowerCase();
+    const time = now();
+    if (!/^\d+$/.test(timestamp ?? '') || Math.abs(time - parseInt(timestamp!, 10) * 1000) > maxSkew) {
+      return 'Signature timestamp is missing or out of range';
+    }
+    if (!safeEqual(signature, signRequest(token, timestamp!, req.method, req.target, req.body))) {
+      return 'Invalid signature';
+    }
+    usedSignatures.forEach((expires, used) => {
+      if (expires < time) {
+        usedSignatures.delete(used);
+      }
+    });
+    if (usedSignatures.has(signature)) {
+      return 'Signature already used';
+    }
+    usedSignatures.set(signature, time + 2 * maxSkew);
+    return null;
+  };
+
+  return req => {
+    const security = options.getSecurity();
+    const origin = req.headers.origin;
+    if (origin && !isOriginAllowed(origin, security.allowedOrigins)) {
+      return reject(req, 403, 'Origin not allowed');
+    }
+    if (req.method === 'OPTIONS') {
+      return null;
+    }
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+    if (bearer) {
+      return safeEqual(bearer[1], security.token) ? null : reject(req, 401, 'Invalid pairing token');
+    }
+    if (req.headers[SIGNATURE_HEADER.toLowerCase()] != null) {
+      const failure = checkSignature(req, security.token);
+      return failure ? reject(req, 401, failure) : null;
+    }
+    return reject(req, 401, 'Missing pairing token or signature');
+  };
+}